@@ -0,0 +1,53 @@
+// Downloads model files into public/models/ so the app can run without
+// internet access.
+// Usage: node scripts/fetch-models.mjs [--unquantized] [model-id ...]
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const DEFAULT_MODELS = ['Xenova/whisper-base.en'];
+
+// Everything transformers.js requests for a Whisper pipeline
+const CONFIG_FILES = [
+  'config.json',
+  'generation_config.json',
+  'preprocessor_config.json',
+  'tokenizer.json',
+  'tokenizer_config.json',
+];
+const QUANTIZED_FILES = ['onnx/encoder_model_quantized.onnx', 'onnx/decoder_model_merged_quantized.onnx'];
+const UNQUANTIZED_FILES = ['onnx/encoder_model.onnx', 'onnx/decoder_model_merged.onnx'];
+
+// Speaker embedding model used to identify speakers, always fetched
+const SPEAKER_MODEL = 'Xenova/wavlm-base-plus-sv';
+const SPEAKER_MODEL_FILES = ['config.json', 'preprocessor_config.json', 'onnx/model_quantized.onnx'];
+
+const HUB_URL = process.env.HF_ENDPOINT ?? 'https://huggingface.co';
+const outputDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'models');
+
+async function fetchModel(modelId, files) {
+  for (const file of files) {
+    const url = `${HUB_URL}/${modelId}/resolve/main/${file}`;
+    const target = join(outputDir, modelId, file);
+
+    console.log(`Downloading ${modelId}/${file}`);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, Buffer.from(await response.arrayBuffer()));
+  }
+}
+
+const args = process.argv.slice(2);
+const unquantized = args.includes('--unquantized');
+const models = args.filter((arg) => !arg.startsWith('--'));
+const files = [...CONFIG_FILES, ...QUANTIZED_FILES, ...(unquantized ? UNQUANTIZED_FILES : [])];
+
+for (const modelId of models.length > 0 ? models : DEFAULT_MODELS) {
+  await fetchModel(modelId, files);
+}
+await fetchModel(SPEAKER_MODEL, SPEAKER_MODEL_FILES);
+console.log(`Models saved to ${outputDir}`);
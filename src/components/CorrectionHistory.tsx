@@ -0,0 +1,51 @@
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, History } from 'lucide-react';
+import { formatTimestamp } from '@/lib/transcript';
+import { summarizeCorrection, type TranscriptCorrection } from '@/lib/transcript-editing';
+
+interface CorrectionHistoryProps {
+  corrections: TranscriptCorrection[];
+  onSeek?: (time: number) => void;
+}
+
+export const CorrectionHistory: React.FC<CorrectionHistoryProps> = ({ corrections, onSeek }) => {
+  if (corrections.length === 0) return null;
+
+  return (
+    <Collapsible className="text-left">
+      <CollapsibleTrigger className="group flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground">
+        <History className="w-4 h-4" />
+        {corrections.length} {corrections.length === 1 ? 'correction' : 'corrections'}
+        <ChevronDown className="w-4 h-4 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ol className="mt-2 max-h-48 overflow-y-auto space-y-1 text-xs">
+          {/* Newest first */}
+          {[...corrections].reverse().map((correction) => {
+            const { from, to } = summarizeCorrection(correction);
+            return (
+              <li key={correction.id} className="flex items-baseline gap-2">
+                <button
+                  type="button"
+                  onClick={() => onSeek?.(correction.start)}
+                  disabled={!onSeek}
+                  className="w-12 shrink-0 text-right tabular-nums text-muted-foreground enabled:hover:text-primary"
+                >
+                  {formatTimestamp(correction.start)}
+                </button>
+                <span className="min-w-0 text-card-foreground">
+                  <span className="line-through text-muted-foreground">{from || '(nothing)'}</span>
+                  {' → '}
+                  <span>{to || '(removed)'}</span>
+                </span>
+                <span className="ml-auto shrink-0 text-muted-foreground">
+                  {new Date(correction.correctedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
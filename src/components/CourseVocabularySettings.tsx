@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Plus, Trash2 } from 'lucide-react';
+import { createCourseVocabulary, parseTerms, type CourseVocabulary } from '@/lib/course-vocabulary';
+import { getActiveVocabulary, type TranscriptionSettings } from '@/lib/transcription-settings';
+
+interface CourseVocabularySettingsProps {
+  settings: TranscriptionSettings;
+  onChange: (update: Partial<TranscriptionSettings>) => void;
+  disabled?: boolean;
+}
+
+const NO_COURSE = 'none';
+
+export const CourseVocabularySettings: React.FC<CourseVocabularySettingsProps> = ({ settings, onChange, disabled }) => {
+  const course = getActiveVocabulary(settings);
+  // Terms are parsed when the field loses focus, so typing is not interrupted
+  const [termsDraft, setTermsDraft] = useState('');
+
+  useEffect(() => {
+    setTermsDraft(course ? course.terms.join('\n') : '');
+  }, [course]);
+
+  const updateCourse = (update: Partial<CourseVocabulary>) => {
+    if (!course) return;
+    onChange({ courses: settings.courses.map((item) => (item.id === course.id ? { ...item, ...update } : item)) });
+  };
+
+  const addCourse = () => {
+    const created = createCourseVocabulary(`Course ${settings.courses.length + 1}`);
+    onChange({ courses: [...settings.courses, created], courseId: created.id });
+  };
+
+  const deleteCourse = () => {
+    if (!course) return;
+    onChange({ courses: settings.courses.filter((item) => item.id !== course.id), courseId: null });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="course-vocabulary" className="text-xs text-muted-foreground">Course vocabulary</Label>
+          <Select
+            value={course?.id ?? NO_COURSE}
+            onValueChange={(value) => onChange({ courseId: value === NO_COURSE ? null : value })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="course-vocabulary">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COURSE}>None</SelectItem>
+              {settings.courses.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.name || 'Untitled course'}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" size="sm" onClick={addCourse} disabled={disabled}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Course
+        </Button>
+        {course && (
+          <Button variant="ghost" size="icon" onClick={deleteCourse} disabled={disabled} aria-label="Delete course">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {course && (
+        <>
+          <Input
+            aria-label="Course name"
+            value={course.name}
+            placeholder="Course name"
+            onChange={(event) => updateCourse({ name: event.target.value })}
+            disabled={disabled}
+          />
+          <Textarea
+            aria-label="Course terms"
+            value={termsDraft}
+            placeholder={"One term per line, e.g.\nNoether's theorem\nbenzaldehyde\nProfessor Okonkwo"}
+            rows={4}
+            onChange={(event) => setTermsDraft(event.target.value)}
+            onBlur={() => updateCourse({ terms: parseTerms(termsDraft) })}
+            disabled={disabled}
+          />
+          <p className="text-xs text-muted-foreground">
+            {course.terms.length} {course.terms.length === 1 ? 'term' : 'terms'}. Whisper is prompted with them,
+            and close misspellings in the transcript are corrected to match.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
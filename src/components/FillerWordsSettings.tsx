@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RotateCcw } from 'lucide-react';
+import { DEFAULT_FILLER_WORDS } from '@/lib/clean-read';
+import { parseTerms } from '@/lib/course-vocabulary';
+import type { TranscriptionSettings } from '@/lib/transcription-settings';
+
+interface FillerWordsSettingsProps {
+  settings: TranscriptionSettings;
+  onChange: (update: Partial<TranscriptionSettings>) => void;
+}
+
+export const FillerWordsSettings: React.FC<FillerWordsSettingsProps> = ({ settings, onChange }) => {
+  // Parsed when the field loses focus, so typing is not interrupted
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    setDraft(settings.fillerWords.join(', '));
+  }, [settings.fillerWords]);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="filler-words" className="text-xs text-muted-foreground">Filler words left out of clean reads</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange({ fillerWords: DEFAULT_FILLER_WORDS })}
+        >
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Defaults
+        </Button>
+      </div>
+      <Textarea
+        id="filler-words"
+        value={draft}
+        rows={2}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={() => onChange({ fillerWords: parseTerms(draft) })}
+      />
+      <p className="text-xs text-muted-foreground">
+        Separate with commas or new lines. Phrases such as "you know" are only left out when set off by commas.
+        Stutters, repeated words and false starts are always left out.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
+import { CaseSensitive, Regex, Replace, WholeWord, X } from 'lucide-react';
+import { formatTimestamp, type Transcript } from '@/lib/transcript';
+import type { SearchOptions, SearchResult } from '@/lib/transcript-search';
+
+interface FindReplacePanelProps {
+  transcript: Transcript;
+  options: SearchOptions;
+  result: SearchResult;
+  onChange: (update: Partial<SearchOptions>) => void;
+  onReplaceAll: () => void;
+  onSeek?: (time: number) => void;
+  onClose: () => void;
+}
+
+// Characters of surrounding text shown around each match in the preview
+const CONTEXT_CHARACTERS = 30;
+
+export const FindReplacePanel: React.FC<FindReplacePanelProps> = ({
+  transcript,
+  options,
+  result,
+  onChange,
+  onReplaceAll,
+  onSeek,
+  onClose,
+}) => {
+  const { matches, error } = result;
+  const segmentCount = new Set(matches.map((match) => match.segmentIndex)).size;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border/30 bg-surface p-3 text-left">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          aria-label="Find"
+          placeholder="Find"
+          value={options.query}
+          onChange={(event) => onChange({ query: event.target.value })}
+          className="h-9 flex-1 min-w-40"
+          autoFocus
+        />
+        <Toggle
+          size="sm"
+          pressed={options.caseSensitive}
+          onPressedChange={(caseSensitive) => onChange({ caseSensitive })}
+          aria-label="Match case"
+          title="Match case"
+        >
+          <CaseSensitive className="w-4 h-4" />
+        </Toggle>
+        <Toggle
+          size="sm"
+          pressed={options.wholeWord}
+          onPressedChange={(wholeWord) => onChange({ wholeWord })}
+          aria-label="Whole words"
+          title="Whole words"
+        >
+          <WholeWord className="w-4 h-4" />
+        </Toggle>
+        <Toggle
+          size="sm"
+          pressed={options.regex}
+          onPressedChange={(regex) => onChange({ regex })}
+          aria-label="Regular expression"
+          title="Regular expression"
+        >
+          <Regex className="w-4 h-4" />
+        </Toggle>
+        <Button variant="ghost" size="icon" className="h-9 w-9" onClick={onClose} aria-label="Close find and replace">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          aria-label="Replace with"
+          placeholder={options.regex ? 'Replace with ($1, $<name> and $& allowed)' : 'Replace with'}
+          value={options.replacement}
+          onChange={(event) => onChange({ replacement: event.target.value })}
+          className="h-9 flex-1 min-w-40"
+        />
+        <Button size="sm" onClick={onReplaceAll} disabled={matches.length === 0}>
+          <Replace className="w-4 h-4 mr-2" />
+          Replace All
+        </Button>
+      </div>
+
+      <p className={error ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+        {error ?? (options.query
+          ? `${matches.length} ${matches.length === 1 ? 'match' : 'matches'} in ${segmentCount} ${segmentCount === 1 ? 'segment' : 'segments'}`
+          : 'Type to search the transcript.')}
+      </p>
+
+      {matches.length > 0 && (
+        <ol className="max-h-48 overflow-y-auto space-y-1 text-xs" aria-label="Replacement preview">
+          {matches.map((match) => {
+            const { text } = transcript.segments[match.segmentIndex];
+            const before = text.slice(Math.max(0, match.from - CONTEXT_CHARACTERS), match.from);
+            const after = text.slice(match.to, match.to + CONTEXT_CHARACTERS);
+            return (
+              <li key={`${match.segmentIndex}-${match.from}`} className="flex items-baseline gap-2">
+                <button
+                  type="button"
+                  onClick={() => onSeek?.(match.time)}
+                  disabled={!onSeek}
+                  className="w-12 shrink-0 text-right tabular-nums text-muted-foreground enabled:hover:text-primary"
+                >
+                  {formatTimestamp(match.time)}
+                </button>
+                <span className="min-w-0 truncate text-card-foreground">
+                  {match.from > CONTEXT_CHARACTERS && '…'}
+                  {before}
+                  <del className="bg-destructive/10 text-destructive">{match.text}</del>
+                  {match.replacement && <ins className="bg-success/10 text-success no-underline">{match.replacement}</ins>}
+                  {after}
+                  {match.to + CONTEXT_CHARACTERS < text.length && '…'}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
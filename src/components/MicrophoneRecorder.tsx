@@ -0,0 +1,129 @@
+import { useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { MicrophoneIcon } from '@/components/ui/microphone-icon';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Pause, Play, Square } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useRecorder } from '@/hooks/use-recorder';
+import { formatTimestamp } from '@/lib/transcript';
+
+// Radix Select does not allow an empty item value
+const DEFAULT_DEVICE = 'default-input';
+
+interface MicrophoneRecorderProps {
+  onRecordingComplete: (blob: Blob) => void;
+  // Called before capture begins, so nothing sent to onAudioData comes before it
+  onRecordingStart?: () => void;
+  // Called when capture could not begin after onRecordingStart
+  onRecordingFailed?: () => void;
+  onAudioData?: (samples: Float32Array, sampleRate: number) => void;
+  disabled?: boolean;
+}
+
+export const MicrophoneRecorder: React.FC<MicrophoneRecorderProps> = ({
+  onRecordingComplete,
+  onRecordingStart,
+  onRecordingFailed,
+  onAudioData,
+  disabled,
+}) => {
+  const recorder = useRecorder({ onRecordingComplete, onAudioData });
+  const { start } = recorder;
+  const { toast } = useToast();
+  const isActive = recorder.state !== 'inactive';
+
+  const startRecording = useCallback(async () => {
+    onRecordingStart?.();
+    try {
+      await start();
+    } catch (error) {
+      onRecordingFailed?.();
+      toast({
+        title: "Microphone Unavailable",
+        description: "Please allow microphone access and try again.",
+        variant: "destructive",
+      });
+    }
+  }, [onRecordingFailed, onRecordingStart, start, toast]);
+
+  if (!recorder.isSupported) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Recording is not supported in this browser.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full max-w-md">
+      {!isActive && recorder.devices.length > 1 && (
+        <Select
+          value={recorder.deviceId || DEFAULT_DEVICE}
+          onValueChange={(value) => recorder.setDeviceId(value === DEFAULT_DEVICE ? '' : value)}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Microphone" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_DEVICE}>Default microphone</SelectItem>
+            {recorder.devices
+              .filter((device) => device.deviceId && device.deviceId !== 'default')
+              .map((device, index) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Microphone ${index + 1}`}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {isActive ? (
+        <div className="w-full space-y-3">
+          <div className="flex items-center justify-center gap-3">
+            <span
+              className={`w-3 h-3 rounded-full ${recorder.state === 'recording' ? 'bg-destructive animate-pulse' : 'bg-muted-foreground'}`}
+            />
+            <span className="font-mono text-lg tabular-nums text-card-foreground">
+              {formatTimestamp(recorder.elapsedMs / 1000)}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {recorder.state === 'paused' ? 'Paused' : 'Recording'}
+            </span>
+          </div>
+
+          <Progress value={recorder.level * 100} className="h-2" aria-label="Input level" />
+
+          <div className="flex justify-center gap-3">
+            {recorder.state === 'recording' ? (
+              <Button onClick={recorder.pause} variant="outline" size="sm">
+                <Pause className="w-4 h-4 mr-2" />
+                Pause
+              </Button>
+            ) : (
+              <Button onClick={recorder.resume} variant="outline" size="sm">
+                <Play className="w-4 h-4 mr-2" />
+                Resume
+              </Button>
+            )}
+            <Button onClick={recorder.stop} variant="destructive" size="sm">
+              <Square className="w-4 h-4 mr-2" />
+              Stop
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          onClick={startRecording}
+          size="lg"
+          variant="outline"
+          disabled={disabled}
+        >
+          <MicrophoneIcon className="w-5 h-5 mr-2" />
+          Record Lecture
+        </Button>
+      )}
+    </div>
+  );
+};
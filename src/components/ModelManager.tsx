@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Download, HardDrive, RefreshCw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useModelManager } from '@/hooks/use-model-manager';
+import { deleteCachedModel, formatBytes, isModelCacheAvailable, listCachedModels, type CachedModel } from '@/lib/model-cache';
+import type { ModelSourceMode } from '@/lib/model-source';
+import { getModelSelection, isSameModel, loadTranscriptionSettings } from '@/lib/transcription-settings';
+
+export const ModelManager: React.FC = () => {
+  const model = useModelManager();
+  const { preload, setSource } = model;
+  // The model chosen in the transcription settings on the main page
+  const [selection] = useState(() => getModelSelection(loadTranscriptionSettings()));
+  const selectionStatus = isSameModel(model.model, selection) ? model.status : 'idle';
+  const [mode, setMode] = useState<ModelSourceMode>(model.source.mode);
+  const [localModelPath, setLocalModelPath] = useState(model.source.localModelPath);
+  const [cachedModels, setCachedModels] = useState<CachedModel[]>([]);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const [isLoadingCache, setIsLoadingCache] = useState(false);
+  const { toast } = useToast();
+
+  const refreshCache = useCallback(async () => {
+    setIsLoadingCache(true);
+    try {
+      setCachedModels(await listCachedModels());
+      if (navigator.storage?.estimate) {
+        setStorage(await navigator.storage.estimate());
+      }
+    } catch (error) {
+      console.error('Error reading model cache:', error);
+      toast({
+        title: "Could Not Read Cache",
+        description: "The browser did not allow access to cached models.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingCache(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    refreshCache();
+  }, [refreshCache]);
+
+  // Once a download finishes the new files show up in the cache
+  useEffect(() => {
+    if (model.status === 'ready') {
+      refreshCache();
+    }
+  }, [model.status, refreshCache]);
+
+  const saveSource = useCallback(() => {
+    try {
+      setSource({ mode, localModelPath });
+      toast({
+        title: "Model Source Saved",
+        description: mode === 'local'
+          ? `Models will be loaded from ${localModelPath}.`
+          : "Models will be downloaded from the Hugging Face hub.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Change Source",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [mode, localModelPath, setSource, toast]);
+
+  const deleteModel = useCallback(async (cachedModel: CachedModel) => {
+    try {
+      await deleteCachedModel(cachedModel);
+      toast({
+        title: "Model Deleted",
+        description: `Freed ${formatBytes(cachedModel.size)} of browser storage.`,
+      });
+    } catch (error) {
+      console.error('Error deleting cached model:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Could not remove the cached model files.",
+        variant: "destructive",
+      });
+    }
+    refreshCache();
+  }, [refreshCache, toast]);
+
+  const isDownloading = selectionStatus === 'downloading' || selectionStatus === 'warming';
+
+  return (
+    <div className="space-y-6">
+      {/* Model Source */}
+      <Card className="p-6 bg-surface-elevated border-border/50 shadow-elegant">
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold text-card-foreground">Model Source</h2>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as ModelSourceMode)} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="remote" id="source-remote" />
+              <Label htmlFor="source-remote">Download from the Hugging Face hub</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="local" id="source-local" />
+              <Label htmlFor="source-local">Load from a local folder or server (offline)</Label>
+            </div>
+          </RadioGroup>
+
+          {mode === 'local' && (
+            <div className="space-y-2">
+              <Label htmlFor="local-model-path">Local model URL</Label>
+              <Input
+                id="local-model-path"
+                value={localModelPath}
+                onChange={(event) => setLocalModelPath(event.target.value)}
+                placeholder="/models/"
+              />
+              <p className="text-xs text-muted-foreground">
+                Files are expected at <code>{'<url>'}/{selection.modelId}/</code>, e.g. the app's <code>public/models/</code> folder.
+              </p>
+            </div>
+          )}
+
+          <Button
+            onClick={saveSource}
+            variant="secondary"
+            disabled={model.status === 'downloading' || model.status === 'warming'}
+          >
+            Save Source
+          </Button>
+        </div>
+      </Card>
+
+      {/* Active Model */}
+      <Card className="p-6 bg-surface-elevated border-border/50 shadow-elegant">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-card-foreground">Transcription Model</h2>
+              <p className="text-sm text-muted-foreground">
+                {selection.modelId}{selection.quantized ? ' (quantized)' : ''}
+              </p>
+            </div>
+            <Button onClick={() => preload(selection)} disabled={selectionStatus !== 'idle' && selectionStatus !== 'error'}>
+              <Download className="w-4 h-4 mr-2" />
+              {selectionStatus === 'ready' ? 'Ready' : 'Download Now'}
+            </Button>
+          </div>
+
+          {isDownloading && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{selectionStatus === 'warming' ? 'Warming up...' : 'Downloading...'}</span>
+                {model.progress !== null && <span>{Math.round(model.progress)}%</span>}
+              </div>
+              <Progress value={model.progress ?? 0} className="h-2" />
+            </div>
+          )}
+
+          {selectionStatus === 'error' && (
+            <p className="text-sm text-destructive">{model.error}</p>
+          )}
+        </div>
+      </Card>
+
+      {/* Cached Models */}
+      <Card className="p-6 bg-surface-elevated border-border/50 shadow-elegant">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <HardDrive className="w-5 h-5 text-primary" />
+              <h2 className="text-lg font-semibold text-card-foreground">Cached Models</h2>
+            </div>
+            <Button onClick={refreshCache} variant="ghost" size="sm" disabled={isLoadingCache}>
+              <RefreshCw className={`w-4 h-4 ${isLoadingCache ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+
+          {storage?.usage !== undefined && storage?.quota !== undefined && (
+            <p className="text-xs text-muted-foreground">
+              Browser storage: {formatBytes(storage.usage)} used of {formatBytes(storage.quota)}
+            </p>
+          )}
+
+          {!isModelCacheAvailable() ? (
+            <p className="text-sm text-muted-foreground">This browser does not support model caching.</p>
+          ) : cachedModels.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No models are cached yet.</p>
+          ) : (
+            <div className="divide-y divide-border/30 border border-border/30 rounded-lg bg-surface">
+              {cachedModels.map((cachedModel) => (
+                <div key={`${cachedModel.source}|${cachedModel.modelId}`} className="flex items-center justify-between gap-4 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-card-foreground truncate">{cachedModel.modelId}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {cachedModel.files.length} files · {formatBytes(cachedModel.size)} ·{' '}
+                      {cachedModel.source === 'remote' ? 'Hugging Face hub' : cachedModel.source}
+                    </p>
+                  </div>
+                  <Button onClick={() => deleteModel(cachedModel)} variant="outline" size="sm">
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
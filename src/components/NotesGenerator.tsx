@@ -3,20 +3,37 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Sparkles, Download, Copy, CheckCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { formatTimestamp, transcriptToText, type Transcript } from '@/lib/transcript';
+import { summarizeCorrection } from '@/lib/transcript-editing';
+
+interface KeyPoint {
+  text: string;
+  // Where the point was made in the lecture audio, in seconds
+  start: number;
+}
 
 interface NotesData {
-  keyPoints: string[];
+  keyPoints: KeyPoint[];
   abbreviations: { term: string; meaning: string; }[];
   uniqueWords: string[];
   generatedDate: string;
 }
 
+// The corrections a transcript carries, by id, so an undone edit compares equal to none
+function getCorrectionIds(transcript: Transcript | null) {
+  return (transcript?.corrections ?? []).map((correction) => correction.id).join(' ');
+}
+
 interface NotesGeneratorProps {
-  transcription: string;
+  transcript: Transcript | null;
 }
 
-export const NotesGenerator: React.FC<NotesGeneratorProps> = ({ transcription }) => {
+export const NotesGenerator: React.FC<NotesGeneratorProps> = ({ transcript }) => {
+  const transcription = transcriptToText(transcript);
   const [notes, setNotes] = useState<NotesData | null>(null);
+  // Corrections the notes were generated from, to tell when they are out of date
+  const [notesCorrections, setNotesCorrections] = useState('');
+  const isOutdated = notes !== null && getCorrectionIds(transcript) !== notesCorrections;
   const [isGenerating, setIsGenerating] = useState(false);
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
@@ -38,8 +55,9 @@ export const NotesGenerator: React.FC<NotesGeneratorProps> = ({ transcription })
     await new Promise(resolve => setTimeout(resolve, 2000));
     
     // Mock AI-generated notes
-    const mockNotes = generateMockNotes(transcription);
+    const mockNotes = generateMockNotes(transcript);
     setNotes(mockNotes);
+    setNotesCorrections(getCorrectionIds(transcript));
     setIsGenerating(false);
     
     toast({
@@ -48,21 +66,39 @@ export const NotesGenerator: React.FC<NotesGeneratorProps> = ({ transcription })
     });
   };
 
-  const generateMockNotes = (text: string) => {
-    // Simple mock summarization logic
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 10);
+  const generateMockNotes = (transcript: Transcript) => {
+    const text = transcriptToText(transcript);
+    
+    // Simple mock summarization logic, keeping each sentence's segment start time
+    const sentences = transcript.segments.flatMap((segment) =>
+      segment.text
+        .split(/[.!?]+/)
+        .filter(s => s.trim().length > 10)
+        .map((sentence) => ({ text: sentence, start: segment.start }))
+    );
     const keyPoints = sentences.slice(0, Math.min(8, sentences.length));
     
     // Extract potential keywords and create abbreviations
     const words = text.toLowerCase().split(/\s+/);
     const commonWords = new Set(['the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'this', 'that', 'these', 'those', 'a', 'an']);
     
-    const uniqueWords = words
-      .filter(word => word.length > 4 && !commonWords.has(word))
-      .filter((word, index, arr) => arr.indexOf(word) === index)
-      .slice(0, 6);
+    // Terms fixed by hand are the ones the recognizer struggles with, so they lead the list
+    const correctedTerms = (transcript.corrections ?? [])
+      .map((correction) => summarizeCorrection(correction).to.replace(/[.,;:!?]+$/, ''))
+      .filter((term) => term.length > 0 && term.split(' ').length <= 4);
+    const seen = new Set<string>();
+    const uniqueWords = [...correctedTerms, ...words.filter(word => word.length > 4 && !commonWords.has(word))]
+      .filter((word) => {
+        const key = word.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, 6 + Math.min(correctedTerms.length, 10));
     
-    const processedKeyPoints = keyPoints.map(point => point.trim()).filter(point => point.length > 0);
+    const processedKeyPoints = keyPoints
+      .map(point => ({ ...point, text: point.text.trim() }))
+      .filter(point => point.text.length > 0);
     
     const abbreviations = [
       { term: 'AI', meaning: 'Artificial Intelligence' },
@@ -95,7 +131,7 @@ export const NotesGenerator: React.FC<NotesGeneratorProps> = ({ transcription })
     let markdownContent = `# Study Notes\n\n`;
     markdownContent += `## Key Points\n\n`;
     notes.keyPoints.forEach((point) => {
-      markdownContent += `• ${point}\n\n`;
+      markdownContent += `• ${point.text} _(${formatTimestamp(point.start)})_\n\n`;
     });
     
     markdownContent += `## Abbreviations & Keywords\n\n`;
@@ -141,7 +177,7 @@ export const NotesGenerator: React.FC<NotesGeneratorProps> = ({ transcription })
       let textContent = `STUDY NOTES\n\n`;
       textContent += `KEY POINTS:\n`;
       notes.keyPoints.forEach((point) => {
-        textContent += `• ${point}\n`;
+        textContent += `• [${formatTimestamp(point.start)}] ${point.text}\n`;
       });
       
       textContent += `\nABBREVIATIONS & KEYWORDS:\n`;
@@ -217,6 +253,14 @@ export const NotesGenerator: React.FC<NotesGeneratorProps> = ({ transcription })
       {notes && (
         <Card className="p-6 bg-surface-elevated border-border/50 shadow-elegant">
           <div className="space-y-4">
+            {isOutdated && (
+              <div className="flex items-center justify-between gap-4 rounded-md border border-warning/40 bg-warning/10 px-3 py-2 text-sm text-card-foreground">
+                <span>The transcript has been corrected since these notes were generated.</span>
+                <Button onClick={generateNotes} variant="outline" size="sm" disabled={isGenerating}>
+                  Regenerate
+                </Button>
+              </div>
+            )}
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <CheckCircle className="w-5 h-5 text-success" />
@@ -257,7 +301,10 @@ export const NotesGenerator: React.FC<NotesGeneratorProps> = ({ transcription })
                     {notes.keyPoints.map((point, index) => (
                       <div key={index} className="flex items-start gap-2">
                         <span className="w-2 h-2 bg-accent rounded-full mt-2 flex-shrink-0"></span>
-                        <p className="text-sm text-card-foreground leading-relaxed">{point}</p>
+                        <p className="text-sm text-card-foreground leading-relaxed">
+                          <span className="text-xs text-muted-foreground mr-2 tabular-nums">{formatTimestamp(point.start)}</span>
+                          {point.text}
+                        </p>
                       </div>
                     ))}
                   </div>
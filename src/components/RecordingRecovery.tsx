@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { History } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { deleteRecording, listAbandonedRecordings, loadRecordingBlob, type StoredRecording } from '@/lib/recording-store';
+import { formatTimestamp } from '@/lib/transcript';
+
+interface RecordingRecoveryProps {
+  // Resolves to true once the recording is safely in use and can be dropped from storage
+  onRecover: (blob: Blob, recording: StoredRecording) => Promise<boolean>;
+  disabled?: boolean;
+}
+
+export const RecordingRecovery: React.FC<RecordingRecoveryProps> = ({ onRecover, disabled }) => {
+  const [recordings, setRecordings] = useState<StoredRecording[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (typeof indexedDB === 'undefined') return;
+    listAbandonedRecordings()
+      .then(setRecordings)
+      .catch((error) => console.error('Error listing unfinished recordings:', error));
+  }, []);
+
+  const forget = useCallback(async (recording: StoredRecording) => {
+    await deleteRecording(recording.id);
+    setRecordings((current) => current.filter((item) => item.id !== recording.id));
+  }, []);
+
+  const recover = useCallback(async (recording: StoredRecording) => {
+    setBusyId(recording.id);
+    try {
+      const blob = await loadRecordingBlob(recording);
+      if (blob.size === 0) {
+        await forget(recording);
+        toast({
+          title: "Nothing to Recover",
+          description: "No audio was saved before the recording was interrupted.",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (await onRecover(blob, recording)) {
+        await forget(recording);
+      }
+    } catch (error) {
+      console.error('Error recovering recording:', error);
+      toast({
+        title: "Recovery Failed",
+        description: "Could not read the saved recording from browser storage.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  }, [forget, onRecover, toast]);
+
+  const discard = useCallback(async (recording: StoredRecording) => {
+    try {
+      await forget(recording);
+    } catch (error) {
+      console.error('Error discarding recording:', error);
+    }
+  }, [forget]);
+
+  if (recordings.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-md space-y-2 text-left">
+      {recordings.map((recording) => (
+        <Alert key={recording.id}>
+          <History className="h-4 w-4" />
+          <AlertTitle>Unfinished recording found</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p className="text-muted-foreground">
+              Started {new Date(recording.startedAt).toLocaleString()}
+              {recording.elapsedMs > 0 && ` · ${formatTimestamp(recording.elapsedMs / 1000)} saved`}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => recover(recording)}
+                disabled={disabled || busyId !== null}
+              >
+                Recover & Transcribe
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => discard(recording)}
+                disabled={busyId === recording.id}
+              >
+                Discard
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import { useCallback, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { openAudioStream } from '@/lib/audio-stream';
+import { diarizeTranscript } from '@/lib/diarization';
+import type { MediaProbe } from '@/lib/media-probe';
+import type { Transcript } from '@/lib/transcript';
+import { getSpeakerLabels, type SpeakerChange } from '@/lib/transcript-editing';
+import type { AudioStream } from '@/lib/windowed-transcription';
+
+interface SpeakerPanelProps {
+  transcript: Transcript;
+  // Source audio of the transcript
+  file: File;
+  probe: MediaProbe | null;
+  // Applied to the latest transcript as one undoable step
+  onChange: (change: SpeakerChange) => void;
+}
+
+const AUTO_SPEAKER_COUNT = 'auto';
+const SPEAKER_COUNTS = [2, 3, 4, 5, 6];
+
+export const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ transcript, file, probe, onChange }) => {
+  const [speakerCount, setSpeakerCount] = useState(AUTO_SPEAKER_COUNT);
+  const [progress, setProgress] = useState<number | null>(null);
+  const { toast } = useToast();
+  const isIdentifying = progress !== null;
+
+  const identifySpeakers = useCallback(async () => {
+    setProgress(0);
+    // Names cannot be edited while this runs, so these are still the speakers when it ends
+    const before = getSpeakerLabels(transcript);
+    let stream: AudioStream | null = null;
+    try {
+      stream = await openAudioStream(file, probe);
+      const diarized = await diarizeTranscript(transcript, stream, {
+        speakerCount: speakerCount === AUTO_SPEAKER_COUNT ? null : Number(speakerCount),
+        onProgress: (completed, total) => setProgress((completed / total) * 100),
+      });
+      onChange({ before, after: getSpeakerLabels(diarized) });
+      toast({
+        title: "Speakers Identified",
+        description: `Found ${diarized.speakers?.length ?? 0} speakers. Rename them below.`,
+      });
+    } catch (error) {
+      console.error('Error identifying speakers:', error);
+      toast({
+        title: "Speaker Identification Failed",
+        description: "Could not analyze the voices in this recording. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      stream?.close();
+      setProgress(null);
+    }
+  }, [file, probe, transcript, speakerCount, onChange, toast]);
+
+  const renameSpeaker = useCallback((speaker: number, name: string) => {
+    if (name === transcript.speakers?.[speaker]) return;
+    const speakers = [...(transcript.speakers ?? [])];
+    speakers[speaker] = name;
+    const before = getSpeakerLabels(transcript);
+    onChange({ before, after: { ...before, speakers } });
+  }, [transcript, onChange]);
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="speaker-count" className="text-xs text-muted-foreground">Speakers</Label>
+          <Select value={speakerCount} onValueChange={setSpeakerCount} disabled={isIdentifying}>
+            <SelectTrigger id="speaker-count" className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_SPEAKER_COUNT}>Detect automatically</SelectItem>
+              {SPEAKER_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)}>{count} speakers</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          onClick={identifySpeakers}
+          variant="outline"
+          size="sm"
+          disabled={isIdentifying || transcript.segments.length === 0}
+        >
+          <Users className="w-4 h-4 mr-2" />
+          {isIdentifying ? 'Identifying...' : transcript.speakers ? 'Identify Again' : 'Identify Speakers'}
+        </Button>
+      </div>
+
+      {isIdentifying && <Progress value={progress} className="h-2" />}
+
+      {transcript.speakers && transcript.speakers.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {transcript.speakers.map((name, speaker) => (
+            <div key={speaker} className="space-y-1">
+              <Label htmlFor={`speaker-${speaker}`} className="text-xs text-muted-foreground">
+                Speaker {speaker + 1}
+              </Label>
+              {/* Renamed when the field loses focus, so a rename is undone in one step */}
+              <Input
+                key={name}
+                id={`speaker-${speaker}`}
+                defaultValue={name}
+                placeholder={`Speaker ${speaker + 1}`}
+                disabled={isIdentifying}
+                onBlur={(event) => renameSpeaker(speaker, event.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
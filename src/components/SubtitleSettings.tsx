@@ -0,0 +1,97 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { LineSplitting, SubtitleOptions } from '@/lib/subtitles';
+import type { TranscriptionSettings } from '@/lib/transcription-settings';
+
+interface SubtitleSettingsProps {
+  settings: TranscriptionSettings;
+  onChange: (update: Partial<TranscriptionSettings>) => void;
+}
+
+interface LimitFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+// Committed when the field loses focus, clamped to [min, max]
+const LimitField: React.FC<LimitFieldProps> = ({ id, label, value, min, max, onChange }) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs text-muted-foreground">{label}</Label>
+    {/* Keyed by value, so a clamped or unchanged entry shows the value in effect */}
+    <Input
+      key={value}
+      id={id}
+      type="number"
+      inputMode="numeric"
+      min={min}
+      max={max}
+      defaultValue={value}
+      onBlur={(event) => {
+        const entered = Math.round(Number(event.target.value));
+        onChange(Number.isFinite(entered) && event.target.value !== '' ? Math.min(max, Math.max(min, entered)) : value);
+      }}
+    />
+  </div>
+);
+
+export const SubtitleSettings: React.FC<SubtitleSettingsProps> = ({ settings, onChange }) => {
+  const options = settings.subtitles;
+  const update = (change: Partial<SubtitleOptions>) => onChange({ subtitles: { ...options, ...change } });
+
+  return (
+    <div className="space-y-1">
+      <span className="text-xs font-medium text-muted-foreground">Subtitle exports</span>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <LimitField
+          id="subtitle-line-length"
+          label="Characters per line"
+          value={options.maxLineLength}
+          min={20}
+          max={80}
+          onChange={(maxLineLength) => update({ maxLineLength })}
+        />
+        <div className="space-y-1">
+          <Label htmlFor="subtitle-lines" className="text-xs text-muted-foreground">Lines per caption</Label>
+          <Select value={String(options.maxLines)} onValueChange={(value) => update({ maxLines: Number(value) })}>
+            <SelectTrigger id="subtitle-lines">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">1</SelectItem>
+              <SelectItem value="2">2</SelectItem>
+              <SelectItem value="3">3</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <LimitField
+          id="subtitle-reading-speed"
+          label="Characters per second"
+          value={options.maxCharsPerSecond}
+          min={5}
+          max={40}
+          onChange={(maxCharsPerSecond) => update({ maxCharsPerSecond })}
+        />
+        <div className="space-y-1">
+          <Label htmlFor="subtitle-line-splitting" className="text-xs text-muted-foreground">Line breaks</Label>
+          <Select
+            value={options.lineSplitting}
+            onValueChange={(value) => update({ lineSplitting: value as LineSplitting })}
+          >
+            <SelectTrigger id="subtitle-line-splitting">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="balanced">Balanced, at phrases</SelectItem>
+              <SelectItem value="fill">Fill each line</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { findSegmentAt, formatTimestamp, getSpeakerName, type Transcript } from '@/lib/transcript';
+import { correctSegment, type TranscriptCorrection } from '@/lib/transcript-editing';
+
+interface TranscriptEditorProps {
+  transcript: Transcript;
+  // Playback position of the source audio, in seconds
+  currentTime: number;
+  onSeek?: (time: number) => void;
+  onCorrect: (corrections: TranscriptCorrection[]) => void;
+}
+
+// Roughly how many characters fit on a line of the editor
+const CHARACTERS_PER_ROW = 80;
+
+// One field per segment, so timestamps stay attached to their text. A field's
+// change becomes a correction when it loses focus.
+export const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ transcript, currentTime, onSeek, onCorrect }) => {
+  const activeIndex = findSegmentAt(transcript.segments, currentTime);
+  const showSpeakers = Boolean(transcript.speakers?.length);
+
+  const commit = (index: number, text: string) => {
+    const correction = correctSegment(transcript, index, text);
+    if (correction) onCorrect([correction]);
+  };
+
+  return (
+    <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+      {transcript.segments.map((segment, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <button
+            type="button"
+            onClick={() => onSeek?.(segment.start)}
+            disabled={!onSeek}
+            className={cn(
+              'mt-1.5 w-14 shrink-0 text-right text-xs tabular-nums text-muted-foreground',
+              onSeek && 'hover:text-primary',
+              index === activeIndex && 'text-primary font-medium',
+            )}
+            aria-label={`Play from ${formatTimestamp(segment.start)}`}
+          >
+            {formatTimestamp(segment.start)}
+          </button>
+          <div className="flex-1 space-y-0.5">
+            {showSpeakers && (
+              <span className="block text-xs font-semibold text-primary">
+                {getSpeakerName(transcript, segment.speaker ?? null)}
+              </span>
+            )}
+            {/* Keyed by text, so an undo or redo replaces what the field shows */}
+            <Textarea
+              key={segment.text}
+              defaultValue={segment.text}
+              rows={Math.max(1, Math.ceil(segment.text.length / CHARACTERS_PER_ROW))}
+              aria-label={`Text at ${formatTimestamp(segment.start)}`}
+              className="min-h-0 resize-y py-1 text-sm leading-relaxed"
+              onBlur={(event) => commit(index, event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter' && !event.shiftKey) {
+                  event.preventDefault();
+                  event.currentTarget.blur();
+                } else if (event.key === 'Escape') {
+                  event.currentTarget.value = segment.text;
+                  event.currentTarget.blur();
+                }
+              }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  LOW_CONFIDENCE,
+  findSegmentAt,
+  findUncertainWords,
+  formatTimestamp,
+  getSpeakerName,
+  getSpeakerTurns,
+  type Transcript,
+  type TranscriptWord,
+} from '@/lib/transcript';
+import type { FormattedParagraph } from '@/lib/transcript-formatting';
+import type { SearchMatch } from '@/lib/transcript-search';
+
+interface TranscriptViewProps {
+  transcript: Transcript;
+  // Playback position of the source audio, in seconds
+  currentTime: number;
+  isPlaying: boolean;
+  onSeek?: (time: number) => void;
+  // Find results to highlight
+  highlights?: SearchMatch[];
+  // Punctuated paragraphs to show instead of the raw segments
+  paragraphs?: FormattedParagraph[] | null;
+  // Words to show in the raw segments, when some are left out, e.g. by a clean read
+  words?: TranscriptWord[] | null;
+}
+
+// A word as shown, and where its raw form sits in its segment
+interface ShownWord {
+  text: string;
+  confidence: number | null;
+  segmentIndex: number;
+  wordIndex: number;
+  offset: number;
+  length: number;
+}
+
+const HIGHLIGHT_CLASS = 'rounded-sm bg-accent/30 text-foreground';
+
+// Text with the given character ranges marked
+function markRanges(text: string, ranges: SearchMatch[]) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach((range) => {
+    parts.push(text.slice(position, range.from));
+    parts.push(<mark key={range.from} className={HIGHLIGHT_CLASS}>{text.slice(range.from, range.to)}</mark>);
+    position = range.to;
+  });
+  parts.push(text.slice(position));
+  return parts;
+}
+
+function describeConfidence(confidence: number | null) {
+  return confidence === null ? undefined : `${Math.round(confidence * 100)}% confident`;
+}
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({
+  transcript,
+  currentTime,
+  isPlaying,
+  onSeek,
+  highlights,
+  paragraphs,
+  words,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLSpanElement>(null);
+  const uncertainWords = useMemo(() => findUncertainWords(transcript), [transcript]);
+  // Position in uncertainWords of the word last jumped to
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+  const highlightsBySegment = useMemo(() => {
+    const bySegment = new Map<number, SearchMatch[]>();
+    highlights?.forEach((match) => {
+      bySegment.set(match.segmentIndex, [...(bySegment.get(match.segmentIndex) ?? []), match]);
+    });
+    return bySegment;
+  }, [highlights]);
+  const wordsBySegment = useMemo(() => {
+    if (!words) return null;
+    const bySegment = new Map<number, TranscriptWord[]>();
+    words.forEach((word) => {
+      bySegment.set(word.segmentIndex, [...(bySegment.get(word.segmentIndex) ?? []), word]);
+    });
+    return bySegment;
+  }, [words]);
+  const reviewed = reviewIndex === null ? null : uncertainWords[reviewIndex] ?? null;
+
+  useEffect(() => {
+    setReviewIndex(null);
+  }, [uncertainWords]);
+
+  // Formatted paragraphs are followed sentence by sentence rather than segment by segment
+  const sentences = useMemo(() => paragraphs?.flatMap((paragraph) => paragraph.sentences) ?? null, [paragraphs]);
+  const units = sentences ?? transcript.segments;
+  const activeIndex = findSegmentAt(units, currentTime);
+  const activeUnit = units[activeIndex];
+  // Nothing is highlighted in the gaps between segments
+  const highlightedIndex = activeUnit && currentTime < activeUnit.end ? activeIndex : -1;
+
+  // Keep the playing segment in view without scrolling the whole page
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = activeRef.current;
+    if (!isPlaying || !container || !active) return;
+
+    const top = active.offsetTop;
+    const bottom = top + active.offsetHeight;
+    if (top < container.scrollTop || bottom > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [highlightedIndex, isPlaying]);
+
+  // Bring the reviewed word into view, whether or not the audio is playing
+  useEffect(() => {
+    const container = containerRef.current;
+    const word = container?.querySelector<HTMLElement>('[data-reviewed="true"]');
+    if (!container || !word) return;
+    container.scrollTo({ top: word.offsetTop - container.clientHeight / 3, behavior: 'smooth' });
+  }, [reviewed]);
+
+  // Steps from the reviewed word, or from the playback position once playback has moved past it
+  const reviewFrom = reviewed ? Math.max(reviewed.start, currentTime) : currentTime;
+  const nextIndex = uncertainWords.findIndex((word) => (reviewed ? word.start > reviewFrom : word.start >= reviewFrom));
+  let previousIndex = -1;
+  uncertainWords.forEach((word, index) => {
+    if (word.start < (reviewed ? reviewed.start : currentTime)) previousIndex = index;
+  });
+
+  const reviewWord = (index: number) => {
+    setReviewIndex(index);
+    onSeek?.(uncertainWords[index].start);
+  };
+
+  const seekTo = (time: number) => {
+    setReviewIndex(null);
+    onSeek?.(time);
+  };
+
+  const renderWord = (word: ShownWord, key: number, isFirst: boolean) => {
+    const uncertain = word.confidence !== null && word.confidence < LOW_CONFIDENCE;
+    const isReviewed = reviewed?.segmentIndex === word.segmentIndex && reviewed.wordIndex === word.wordIndex;
+    const isFound = (highlightsBySegment.get(word.segmentIndex) ?? [])
+      .some((range) => range.from < word.offset + word.length && range.to > word.offset);
+    return (
+      <span key={key}>
+        {!isFirst && ' '}
+        <span
+          data-reviewed={isReviewed || undefined}
+          title={uncertain ? describeConfidence(word.confidence) : undefined}
+          className={cn(
+            uncertain && 'bg-warning/10 underline decoration-warning/70 decoration-dotted underline-offset-4',
+            isReviewed && 'rounded-sm ring-2 ring-warning',
+            isFound && HIGHLIGHT_CLASS,
+          )}
+        >
+          {word.text}
+        </span>
+      </span>
+    );
+  };
+
+  // A stretch of text that plays from `start` when clicked
+  const renderSeekable = (key: string, index: number, start: number, content: React.ReactNode) => (
+    <span
+      key={key}
+      ref={index === highlightedIndex ? activeRef : undefined}
+      role={onSeek ? 'button' : undefined}
+      tabIndex={onSeek ? 0 : undefined}
+      title={formatTimestamp(start)}
+      onClick={() => seekTo(start)}
+      onKeyDown={(event) => {
+        if (onSeek && (event.key === 'Enter' || event.key === ' ')) {
+          event.preventDefault();
+          seekTo(start);
+        }
+      }}
+      className={cn(
+        'rounded px-0.5 transition-colors',
+        onSeek && 'cursor-pointer hover:bg-primary/10',
+        index === highlightedIndex && 'bg-primary/20 text-foreground',
+      )}
+    >
+      {content}{' '}
+    </span>
+  );
+
+  if (transcript.segments.length === 0) {
+    return (
+      <p className="text-card-foreground leading-relaxed text-sm">
+        No speech detected in the audio file.
+      </p>
+    );
+  }
+
+  const showSpeakers = Boolean(transcript.speakers?.length);
+  // Index in `sentences` of the next paragraph's first sentence
+  let sentenceCount = 0;
+
+  return (
+    <div className="space-y-2">
+      {uncertainWords.length > 0 && (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <span className="mr-auto">
+            {reviewIndex === null
+              ? `${uncertainWords.length} uncertain ${uncertainWords.length === 1 ? 'word' : 'words'}`
+              : `Uncertain word ${reviewIndex + 1} of ${uncertainWords.length}`}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={() => reviewWord(previousIndex)}
+            disabled={previousIndex === -1}
+          >
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Previous
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={() => reviewWord(nextIndex)}
+            disabled={nextIndex === -1}
+          >
+            Next uncertain word
+            <ChevronRight className="w-4 h-4 ml-1" />
+          </Button>
+        </div>
+      )}
+
+      <div ref={containerRef} className="relative max-h-80 overflow-y-auto space-y-3">
+        {paragraphs && sentences
+          ? paragraphs.map((paragraph, paragraphIndex) => {
+            const firstSentence = sentenceCount;
+            sentenceCount += paragraph.sentences.length;
+            const changesSpeaker = paragraphIndex === 0 || paragraphs[paragraphIndex - 1].speaker !== paragraph.speaker;
+            return (
+              <p key={paragraph.start} className="text-card-foreground leading-relaxed text-sm">
+                {showSpeakers && changesSpeaker && (
+                  <span className="block text-xs font-semibold text-primary">
+                    {getSpeakerName(transcript, paragraph.speaker)}
+                  </span>
+                )}
+                {paragraph.sentences.map((sentence, offset) => renderSeekable(
+                  `${sentence.start}-${firstSentence + offset}`,
+                  firstSentence + offset,
+                  sentence.start,
+                  sentence.words.map((word, wordIndex) => renderWord({ ...word, length: word.raw.length }, wordIndex, wordIndex === 0)),
+                ))}
+              </p>
+            );
+          })
+          : getSpeakerTurns(transcript).map((turn) => (
+            <p key={turn.startIndex} className="text-card-foreground leading-relaxed text-sm">
+              {showSpeakers && (
+                <span className="block text-xs font-semibold text-primary">
+                  {getSpeakerName(transcript, turn.speaker)}
+                </span>
+              )}
+              {turn.segments.map((segment, offset) => {
+                const index = turn.startIndex + offset;
+                const shownWords = wordsBySegment?.get(index);
+                // Segments left with nothing to show are skipped
+                if (wordsBySegment && !shownWords) return null;
+                // Words are joined by single spaces, so each starts one past the end of the last
+                let wordOffset = 0;
+                return renderSeekable(
+                  `${segment.start}-${index}`,
+                  index,
+                  segment.start,
+                  shownWords
+                    ? shownWords.map((word, wordIndex) => renderWord({ ...word, length: word.raw.length }, wordIndex, wordIndex === 0))
+                    : segment.words
+                    ? segment.words.map((word, wordIndex) => {
+                      const from = wordOffset;
+                      wordOffset += word.text.length + 1;
+                      return renderWord(
+                        { ...word, segmentIndex: index, wordIndex, offset: from, length: word.text.length },
+                        wordIndex,
+                        wordIndex === 0,
+                      );
+                    })
+                    : markRanges(segment.text, highlightsBySegment.get(index) ?? []),
+                );
+              })}
+            </p>
+          ))}
+      </div>
+    </div>
+  );
+};
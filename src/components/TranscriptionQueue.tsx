@@ -0,0 +1,157 @@
+import { Button } from '@/components/ui/button';
+import { AlertCircle, ArrowDown, ArrowUp, CheckCircle2, Clock, Loader2, RotateCcw, Square, X } from 'lucide-react';
+import type { ChunkProgress, TranscriberStatus } from '@/hooks/use-transcriber';
+import type { QueueItem } from '@/hooks/use-transcription-queue';
+import { countWords, transcriptToText } from '@/lib/transcript';
+import { cn } from '@/lib/utils';
+
+interface TranscriptionQueueProps {
+  items: QueueItem[];
+  selectedId: string | null;
+  transcriberStatus: TranscriberStatus;
+  chunkProgress: ChunkProgress;
+  onSelect: (id: string) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+function describeStatus(item: QueueItem, transcriberStatus: TranscriberStatus, chunkProgress: ChunkProgress) {
+  switch (item.status) {
+    case 'queued':
+      return 'Queued';
+    case 'transcribing':
+      if (transcriberStatus === 'paused') return 'Paused';
+      if (transcriberStatus === 'loading') return 'Loading model...';
+      return chunkProgress.total > 0
+        ? `Transcribing · chunk ${chunkProgress.completed} of ${chunkProgress.total}`
+        : 'Preparing audio...';
+    case 'done':
+      return item.transcript
+        ? `Done · ${countWords(transcriptToText(item.transcript)).toLocaleString()} words`
+        : 'Done';
+    case 'failed':
+      return item.error ?? 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+}
+
+const StatusIcon: React.FC<{ status: QueueItem['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'queued':
+      return <Clock className="w-4 h-4 text-muted-foreground" />;
+    case 'transcribing':
+      return <Loader2 className="w-4 h-4 text-primary animate-spin" />;
+    case 'done':
+      return <CheckCircle2 className="w-4 h-4 text-primary" />;
+    case 'failed':
+      return <AlertCircle className="w-4 h-4 text-destructive" />;
+    case 'cancelled':
+      return <Square className="w-4 h-4 text-muted-foreground" />;
+  }
+};
+
+export const TranscriptionQueue: React.FC<TranscriptionQueueProps> = ({
+  items,
+  selectedId,
+  transcriberStatus,
+  chunkProgress,
+  onSelect,
+  onMove,
+  onRetry,
+  onCancel,
+  onRemove,
+}) => {
+  if (items.length === 0) return null;
+
+  return (
+    <ul className="w-full max-w-xl space-y-1 text-left" aria-label="Transcription queue">
+      {items.map((item, index) => (
+        <li
+          key={item.id}
+          className={cn(
+            'flex items-center gap-2 rounded-md border px-3 py-2 text-sm bg-surface-elevated',
+            item.id === selectedId ? 'border-primary' : 'border-border/50',
+          )}
+        >
+          <StatusIcon status={item.status} />
+          <button
+            type="button"
+            onClick={() => onSelect(item.id)}
+            className="min-w-0 flex-1 text-left"
+            aria-current={item.id === selectedId ? 'true' : undefined}
+          >
+            <span className="block truncate text-card-foreground">{item.file.name}</span>
+            <span
+              className={cn(
+                'block truncate text-xs',
+                item.status === 'failed' ? 'text-destructive' : 'text-muted-foreground',
+              )}
+            >
+              {describeStatus(item, transcriberStatus, chunkProgress)}
+            </span>
+          </button>
+
+          {item.status === 'queued' && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onMove(item.id, -1)}
+                disabled={index === 0}
+                aria-label="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onMove(item.id, 1)}
+                disabled={index === items.length - 1}
+                aria-label="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+          {(item.status === 'failed' || item.status === 'cancelled') && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onRetry(item.id)}
+              aria-label="Retry"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          )}
+          {item.status === 'transcribing' ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onCancel(item.id)}
+              aria-label="Cancel"
+            >
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onRemove(item.id)}
+              aria-label="Remove"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
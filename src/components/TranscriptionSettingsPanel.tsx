@@ -0,0 +1,143 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { CourseVocabularySettings } from '@/components/CourseVocabularySettings';
+import { FillerWordsSettings } from '@/components/FillerWordsSettings';
+import { SubtitleSettings } from '@/components/SubtitleSettings';
+import {
+  AUTO_DETECT_LANGUAGE,
+  LANGUAGES,
+  MODEL_SIZES,
+  getModelSelection,
+  type TranscriptionSettings,
+  type WhisperModelSize,
+  type WhisperTask,
+} from '@/lib/transcription-settings';
+
+interface TranscriptionSettingsPanelProps {
+  settings: TranscriptionSettings;
+  onChange: (update: Partial<TranscriptionSettings>) => void;
+  disabled?: boolean;
+}
+
+export const TranscriptionSettingsPanel: React.FC<TranscriptionSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const { modelId } = getModelSelection(settings);
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="model-size" className="text-xs text-muted-foreground">Model</Label>
+          <Select
+            value={settings.modelSize}
+            onValueChange={(value) => onChange({ modelSize: value as WhisperModelSize })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="model-size">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MODEL_SIZES.map((size) => (
+                <SelectItem key={size.value} value={size.value}>{size.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="source-language" className="text-xs text-muted-foreground">Spoken language</Label>
+          <Select
+            value={settings.language}
+            onValueChange={(value) => onChange({ language: value })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="source-language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_DETECT_LANGUAGE}>Detect automatically</SelectItem>
+              {LANGUAGES.map((language) => (
+                <SelectItem key={language.code} value={language.code}>{language.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="task" className="text-xs text-muted-foreground">Output</Label>
+          <Select
+            value={settings.task}
+            onValueChange={(value) => onChange({ task: value as WhisperTask })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="task">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="transcribe">Transcribe in spoken language</SelectItem>
+              <SelectItem value="translate">Translate to English</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="quantized"
+            checked={settings.quantized}
+            onCheckedChange={(checked) => onChange({ quantized: checked })}
+            disabled={disabled}
+          />
+          <Label htmlFor="quantized" className="text-xs text-muted-foreground">
+            Quantized (smaller download, slightly less accurate)
+          </Label>
+        </div>
+        <span className="text-xs text-muted-foreground">{modelId}</span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="live-captions"
+          checked={settings.liveCaptions}
+          onCheckedChange={(checked) => onChange({ liveCaptions: checked })}
+          disabled={disabled}
+        />
+        <Label htmlFor="live-captions" className="text-xs text-muted-foreground">
+          Live captions while recording
+        </Label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="skip-silence"
+            checked={settings.skipSilence}
+            onCheckedChange={(checked) => onChange({ skipSilence: checked })}
+            disabled={disabled}
+          />
+          <Label htmlFor="skip-silence" className="text-xs text-muted-foreground">
+            Skip silence and room noise
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="normalize-loudness"
+            checked={settings.normalizeLoudness}
+            onCheckedChange={(checked) => onChange({ normalizeLoudness: checked })}
+            disabled={disabled}
+          />
+          <Label htmlFor="normalize-loudness" className="text-xs text-muted-foreground">
+            Normalize loudness
+          </Label>
+        </div>
+      </div>
+
+      <CourseVocabularySettings settings={settings} onChange={onChange} disabled={disabled} />
+
+      {/* These only change how finished transcripts read, so they stay open while transcribing */}
+      <FillerWordsSettings settings={settings} onChange={onChange} />
+      <SubtitleSettings settings={settings} onChange={onChange} />
+    </div>
+  );
+};
@@ -1,195 +1,387 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Upload, Download, RotateCcw, FileAudio, Play, Pause } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Upload, Download, RotateCcw, FileAudio, Play, Pause, HardDrive, Square, Pencil, Check, Undo2, Redo2, Search, ChevronDown } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { pipeline } from '@xenova/transformers';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Progress } from '@/components/ui/progress';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useTranscriptionQueue, type QueueEntry, type QueueItem } from '@/hooks/use-transcription-queue';
+import { useTranscriptionSettings } from '@/hooks/use-transcription-settings';
+import { useTranscriptHistory } from '@/hooks/use-transcript-history';
+import { useLiveTranscription } from '@/hooks/use-live-transcription';
+import { UnsupportedAudioError } from '@/lib/audio';
+import { ACCEPTED_FILE_TYPES } from '@/lib/audio-formats';
+import { cleanTranscript, removeDisfluencies, type TranscriptMode } from '@/lib/clean-read';
+import { applyVocabulary, buildVocabularyPrompt } from '@/lib/course-vocabulary';
+import { describeProbe, probeMediaFile } from '@/lib/media-probe';
+import { transcriptToSubtitles } from '@/lib/subtitles';
+import {
+  countWords,
+  createTranscript,
+  getTranscriptWords,
+  transcriptToJson,
+  transcriptToText,
+  type Transcript,
+} from '@/lib/transcript';
+import { formatTranscript, formattedToText } from '@/lib/transcript-formatting';
+import { EMPTY_SEARCH, replaceMatches, searchTranscript, type SearchOptions } from '@/lib/transcript-search';
+import {
+  AUTO_DETECT_LANGUAGE,
+  getActiveVocabulary,
+  getLanguageName,
+  getModelSelection,
+  type TranscriptionSettings,
+} from '@/lib/transcription-settings';
+import type { StoredRecording } from '@/lib/recording-store';
+import type { TranscribeOptions } from '@/workers/transcription-protocol';
+import { TranscriptionSettingsPanel } from '@/components/TranscriptionSettingsPanel';
+import { TranscriptView } from '@/components/TranscriptView';
+import { TranscriptEditor } from '@/components/TranscriptEditor';
+import { CorrectionHistory } from '@/components/CorrectionHistory';
+import { FindReplacePanel } from '@/components/FindReplacePanel';
+import { MicrophoneRecorder } from '@/components/MicrophoneRecorder';
+import { RecordingRecovery } from '@/components/RecordingRecovery';
+import { TranscriptionQueue } from '@/components/TranscriptionQueue';
+import { SpeakerPanel } from '@/components/SpeakerPanel';
 
 interface VoiceRecorderProps {
-  onTranscriptionComplete: (text: string) => void;
+  onTranscriptionComplete: (transcript: Transcript | null) => void;
+}
+
+type ExportFormat = 'txt' | 'srt' | 'vtt' | 'json';
+
+const EXPORT_TYPES: Record<ExportFormat, string> = {
+  txt: 'text/plain',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  json: 'application/json',
+};
+
+function getTranscribeOptions(settings: TranscriptionSettings): TranscribeOptions {
+  return {
+    language: settings.language === AUTO_DETECT_LANGUAGE ? null : settings.language,
+    task: settings.task,
+    prompt: buildVocabularyPrompt(getActiveVocabulary(settings)),
+  };
 }
 
 export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onTranscriptionComplete }) => {
-  const [transcription, setTranscription] = useState('');
-  const [isTranscribing, setIsTranscribing] = useState(false);
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isFinishingLive, setIsFinishingLive] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  // Show and download punctuated paragraphs rather than the recognizer's raw segments
+  const [isFormatted, setIsFormatted] = useState(true);
+  // Verbatim for the record, or a clean read without fillers and false starts
+  const [mode, setMode] = useState<TranscriptMode>('verbatim');
+  const [search, setSearch] = useState<SearchOptions>(EMPTY_SEARCH);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
+  // Recovered recordings stay in browser storage until their transcription settles
+  const pendingRecoveriesRef = useRef(new Map<string, (recovered: boolean) => void>());
   const { toast } = useToast();
+  const { settings, updateSettings } = useTranscriptionSettings();
+  const live = useLiveTranscription();
+
+  const settleRecovery = useCallback((id: string, recovered: boolean) => {
+    pendingRecoveriesRef.current.get(id)?.(recovered);
+    pendingRecoveriesRef.current.delete(id);
+  }, []);
+
+  const handleQueueStart = useCallback((item: QueueItem, resumedChunks: number) => {
+    if (resumedChunks === 0) return;
+    toast({
+      title: "Resuming Transcription",
+      description: `${item.file.name}: continuing after ${resumedChunks} chunks transcribed earlier.`,
+    });
+  }, [toast]);
 
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const handleQueueSettled = useCallback((item: QueueItem) => {
+    settleRecovery(item.id, item.status === 'done');
 
-    // Check if file is audio format
-    const allowedTypes = ['audio/mp3', 'audio/mpeg', 'audio/wav', 'audio/wave'];
-    if (!allowedTypes.includes(file.type)) {
+    if (item.status === 'done' && item.transcript) {
+      const totalWords = countWords(transcriptToText(item.transcript));
       toast({
-        title: "Invalid File Type",
-        description: "Please upload an MP3 or WAV audio file.",
+        title: "Transcription Complete",
+        description: `${item.file.name} has been converted to text! (${totalWords.toLocaleString()} words)`,
+      });
+    } else if (item.status === 'failed') {
+      toast({
+        title: "Transcription Failed",
+        description: `${item.file.name}: ${item.error}`,
         variant: "destructive",
       });
+    } else if (item.status === 'cancelled') {
+      toast({
+        title: "Transcription Cancelled",
+        description: `${item.file.name} was stopped before it finished.`,
+      });
+    }
+  }, [settleRecovery, toast]);
+
+  const queue = useTranscriptionQueue(
+    {
+      selection: getModelSelection(settings),
+      options: getTranscribeOptions(settings),
+      preprocessing: { skipSilence: settings.skipSilence, normalizeLoudness: settings.normalizeLoudness },
+      vocabulary: getActiveVocabulary(settings),
+    },
+    { onStart: handleQueueStart, onSettled: handleQueueSettled },
+  );
+  const { add: addToQueue, start: runQueue, updateTranscript, remove: removeFromQueue, clear: clearQueue } = queue;
+  const {
+    status: transcriberStatus,
+    model,
+    chunkProgress,
+    partialText,
+    pause: pauseTranscription,
+    resume: resumeTranscription,
+  } = queue.transcriber;
+  const { preload: preloadModel } = model;
+
+  const selectedItem = queue.items.find((item) => item.id === selectedId) ?? null;
+  const activeItem = queue.items.find((item) => item.id === queue.activeId) ?? null;
+  const selectedFile = selectedItem?.file ?? null;
+  const transcript = selectedItem?.transcript ?? null;
+  const transcription = transcriptToText(transcript);
+  const isTranscribing = activeItem !== null || isFinishingLive;
+  const hasQueuedFiles = queue.items.some((item) => item.status === 'queued');
+
+  // Notes follow whichever file is open, while the others keep transcribing
+  useEffect(() => {
+    onTranscriptionComplete(transcript);
+  }, [transcript, onTranscriptionComplete]);
+
+  const history = useTranscriptHistory(selectedId, updateTranscript);
+  const { undo, redo } = history;
+
+  const cleanWords = useMemo(
+    () => (mode === 'clean' && transcript ? removeDisfluencies(getTranscriptWords(transcript), settings.fillerWords) : null),
+    [mode, transcript, settings.fillerWords],
+  );
+  const paragraphs = useMemo(
+    () => (isFormatted && transcript ? formatTranscript(transcript, cleanWords ?? undefined) : null),
+    [isFormatted, transcript, cleanWords],
+  );
+
+  const searchResult = useMemo(
+    () => (isSearching && transcript ? searchTranscript(transcript, search) : null),
+    [isSearching, transcript, search],
+  );
+
+  const replaceAll = () => {
+    if (!transcript || !searchResult) return;
+    const corrections = replaceMatches(transcript, searchResult.matches);
+    history.commit(corrections);
+    toast({
+      title: "Replaced",
+      description: `${searchResult.matches.length} ${searchResult.matches.length === 1 ? 'match' : 'matches'} in ${corrections.length} ${corrections.length === 1 ? 'segment' : 'segments'}. Undo to restore them.`,
+    });
+  };
+
+  // Ctrl+Z and Ctrl+Shift+Z or Ctrl+Y, except while typing, where they belong to the field
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (!(event.ctrlKey || event.metaKey) || target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    setIsPlaying(false);
+    setCurrentTime(0);
+    if (!selectedFile) {
+      setAudioUrl(null);
       return;
     }
 
-    // Check file duration using audio element
-    const audio = new Audio();
-    const url = URL.createObjectURL(file);
-    
-    audio.onloadedmetadata = () => {
-      const durationInMinutes = audio.duration / 60;
-      
-      // Check if audio is longer than 40 minutes
-      if (durationInMinutes > 40) {
+    const url = URL.createObjectURL(selectedFile);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selectedFile]);
+
+  // Queues files, opening the first one if nothing is open yet
+  const enqueue = useCallback((entries: QueueEntry[]) => {
+    const added = addToQueue(entries);
+    if (added.length > 0 && !selectedItem) {
+      setSelectedId(added[0].id);
+    }
+    // Start fetching the model while the user reviews the files
+    preloadModel(getModelSelection(settings));
+    return added;
+  }, [addToQueue, selectedItem, preloadModel, settings]);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    const entries: QueueEntry[] = [];
+    for (const file of files) {
+      // Identify the file from its contents; File.type is often empty or nonstandard
+      try {
+        const probe = await probeMediaFile(file);
+        entries.push({ file, probe });
+      } catch (error) {
+        console.error(`Error probing ${file.name}:`, error);
         toast({
-          title: "File Too Long",
-          description: "Please upload an audio file shorter than 40 minutes.",
+          title: error instanceof UnsupportedAudioError ? "Unsupported File" : "Invalid File",
+          description: error instanceof UnsupportedAudioError
+            ? `${file.name}: ${error.message}`
+            : `Could not read ${file.name}. Please try a different file.`,
           variant: "destructive",
         });
-        URL.revokeObjectURL(url);
-        return;
       }
-      
-      setUploadedFile(file);
-      setAudioUrl(url);
-      
-      toast({
-        title: "File Uploaded",
-        description: `${file.name} (${Math.round(durationInMinutes)}min) is ready for transcription and playback.`,
-      });
-    };
+    }
+    if (entries.length === 0) return;
+
+    enqueue(entries);
     
-    audio.onerror = () => {
+    const [{ file, probe }] = entries;
+    toast({
+      title: entries.length === 1 ? "File Uploaded" : "Files Uploaded",
+      description: entries.length > 1
+        ? `${entries.length} files were added to the queue.`
+        : probe.duration !== null
+        ? `${file.name} (${Math.round(probe.duration / 60)}min) is ready for transcription and playback.`
+        : `${file.name} is ready for transcription and playback.`,
+    });
+  }, [enqueue, toast]);
+
+  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Let the same file be picked again, e.g. after removing it from the queue
+    event.target.value = '';
+    await addFiles(files);
+  }, [addFiles]);
+
+  const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    // Ignore moves between child elements of the drop zone
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  }, []);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  }, [addFiles]);
+
+  const createRecordingFile = useCallback((blob: Blob, recordedAt = new Date()) => {
+    if (blob.size === 0) {
       toast({
-        title: "Invalid Audio File",
-        description: "Could not load the audio file. Please try a different file.",
+        title: "Empty Recording",
+        description: "No audio was captured. Please check your microphone.",
         variant: "destructive",
       });
-      URL.revokeObjectURL(url);
-    };
+      return null;
+    }
     
-    audio.src = url;
+    const extension = blob.type.includes('ogg') ? 'ogg' : blob.type.includes('mp4') ? 'm4a' : 'webm';
+    const timestamp = recordedAt.toISOString().slice(0, 16).replace(/[:T]/g, '-');
+    return new File([blob], `recording-${timestamp}.${extension}`, { type: blob.type });
   }, [toast]);
 
-  const transcribeAudio = useCallback(async () => {
-    if (!uploadedFile) {
+  const startQueue = useCallback(() => {
+    toast({
+      title: "Transcription Started",
+      description: "Loading Whisper model and processing your audio...",
+    });
+    runQueue();
+  }, [runQueue, toast]);
+
+  const handleRecordingStart = useCallback(() => {
+    if (!settings.liveCaptions) return;
+
+    const selection = getModelSelection(settings);
+    preloadModel(selection);
+    live.start(selection, getTranscribeOptions(settings));
+  }, [live, preloadModel, settings]);
+
+  const handleRecordingStopped = useCallback(async (blob: Blob) => {
+    const file = createRecordingFile(blob);
+    if (!file) {
+      live.cancel();
+      return;
+    }
+    if (!live.isActive) {
+      const [item] = enqueue([{ file, probe: null }]);
+      setSelectedId(item.id);
       toast({
-        title: "No File Selected",
-        description: "Please upload an audio file first.",
-        variant: "destructive",
+        title: "Recording Saved",
+        description: `${file.name} is ready for transcription and playback.`,
       });
       return;
     }
 
-    setIsTranscribing(true);
-    
+    setIsFinishingLive(true);
     try {
-      toast({
-        title: "Transcription Started",
-        description: "Loading Whisper model and processing your audio...",
-      });
-
-      // Use Whisper base model for better accuracy on longer audio
-      const transcriber = await pipeline('automatic-speech-recognition', 'Xenova/whisper-base.en');
-      
-      // Create URL for the audio file that the pipeline can process
-      const audioUrl = URL.createObjectURL(uploadedFile);
-      
-      console.log('Starting transcription with file:', uploadedFile.name);
-      
-      // Transcribe the complete audio with optimized settings for full coverage
-      const result = await transcriber(audioUrl, {
-        // Longer chunks to reduce segmentation issues
-        chunk_length_s: 60,
-        // Larger stride to ensure overlap and continuity
-        stride_length_s: 10,
-        // Return timestamps to debug chunk processing if needed
-        return_timestamps: true,
-        // Force processing of the entire audio
-        force_full_sequences: true,
-      });
-      
-      console.log('Transcription result:', result);
-      
-      // Handle the result more comprehensively
-      let transcribedText = '';
-      let allChunks = [];
-      
-      if (Array.isArray(result)) {
-        // If result is an array of chunks, process each chunk
-        allChunks = result;
-        console.log(`Processing ${result.length} chunks`);
-      } else if (result && typeof result === 'object') {
-        // If single result, convert to array for uniform processing
-        allChunks = [result];
-        console.log('Processing single result');
-      }
-      
-      // Extract and combine text from all chunks
-      const textSegments = allChunks
-        .map((chunk, index) => {
-          const text = chunk.text || '';
-          console.log(`Chunk ${index + 1}: "${text.substring(0, 100)}..."`);
-          return text.trim();
-        })
-        .filter(text => text.length > 0);
-      
-      // Join all text segments with proper spacing
-      transcribedText = textSegments.join(' ').trim();
-      
-      // Clean up duplicate words at chunk boundaries
-      const words = transcribedText.split(/\s+/);
-      const cleanedWords = [];
-      
-      for (let i = 0; i < words.length; i++) {
-        const currentWord = words[i];
-        const nextWord = words[i + 1];
-        
-        // Skip if the next word is identical (likely a chunk boundary duplicate)
-        if (currentWord && (!nextWord || currentWord !== nextWord)) {
-          cleanedWords.push(currentWord);
-        }
-      }
-      
-      transcribedText = cleanedWords.join(' ');
-      
-      if (!transcribedText || transcribedText.length === 0) {
-        transcribedText = "No speech detected in the audio file.";
-      }
-      
-      console.log(`Final transcription length: ${transcribedText.length} characters, ${cleanedWords.length} words`);
-      
-      // Limit to 50,000 words (approximately 300,000 characters)
-      if (cleanedWords.length > 50000) {
-        transcribedText = cleanedWords.slice(0, 50000).join(' ') + '\n\n[Transcription truncated at 50,000 words]';
-      }
-      
-      setTranscription(transcribedText);
-      onTranscriptionComplete(transcribedText);
-      setIsTranscribing(false);
-      
-      // Clean up the created URL
-      URL.revokeObjectURL(audioUrl);
-      
-      const wordCount = transcribedText.split(/\s+/).filter(word => word.length > 0).length;
-      toast({
-        title: "Transcription Complete",
-        description: `Your audio has been converted to text! (${wordCount.toLocaleString()} words)`,
-      });
+      const result = await live.finish();
+      if (!result) throw new Error('The live session had already ended');
 
+      const output = applyVocabulary(result.output, getActiveVocabulary(settings));
+      const [item] = enqueue([{
+        file,
+        probe: null,
+        transcript: createTranscript(output.chunks, {
+          language: output.language,
+          translated: settings.task === 'translate',
+          duration: result.duration,
+        }),
+      }]);
+      setSelectedId(item.id);
+      handleQueueSettled(item);
     } catch (error) {
-      console.error('Error transcribing audio:', error);
-      setIsTranscribing(false);
-      toast({
-        title: "Transcription Failed",
-        description: "Could not transcribe the audio file. Please try again.",
-        variant: "destructive",
-      });
+      // The saved recording is complete, so transcribe it the regular way
+      console.error('Live transcription failed, transcribing the recording instead:', error);
+      const [item] = enqueue([{ file, probe: null }]);
+      setSelectedId(item.id);
+      runQueue();
+    } finally {
+      setIsFinishingLive(false);
+    }
+  }, [createRecordingFile, enqueue, handleQueueSettled, live, runQueue, settings, toast]);
+
+  // A recording interrupted by a crash or closed tab, rebuilt from its stored slices
+  const recoverRecording = useCallback((blob: Blob, recording: StoredRecording) => {
+    const file = createRecordingFile(blob, new Date(recording.startedAt));
+    if (!file) return Promise.resolve(false);
+
+    const [item] = enqueue([{ file, probe: null }]);
+    setSelectedId(item.id);
+    runQueue();
+    return new Promise<boolean>((resolve) => {
+      pendingRecoveriesRef.current.set(item.id, resolve);
+    });
+  }, [createRecordingFile, enqueue, runQueue]);
+
+  const removeItem = useCallback((id: string) => {
+    removeFromQueue(id);
+    settleRecovery(id, false);
+    if (id === selectedId) {
+      setSelectedId(null);
     }
-  }, [uploadedFile, onTranscriptionComplete, toast]);
+  }, [removeFromQueue, selectedId, settleRecovery]);
 
   const togglePlayPause = useCallback(() => {
     if (!audioRef.current) return;
@@ -207,29 +399,31 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onTranscriptionCom
     setIsPlaying(false);
   }, []);
 
-  const clearWorkspace = useCallback(() => {
-    setTranscription('');
-    setUploadedFile(null);
-    setIsPlaying(false);
+  const seekTo = useCallback((time: number) => {
+    if (!audioRef.current) return;
     
-    // Clean up audio URL
-    if (audioUrl) {
-      URL.revokeObjectURL(audioUrl);
-      setAudioUrl(null);
+    audioRef.current.currentTime = time;
+    setCurrentTime(time);
+    if (!isPlaying) {
+      audioRef.current.play();
+      setIsPlaying(true);
     }
+  }, [isPlaying]);
+
+  const clearWorkspace = useCallback(() => {
+    clearQueue();
+    pendingRecoveriesRef.current.forEach((resolve) => resolve(false));
+    pendingRecoveriesRef.current.clear();
+    setSelectedId(null);
     
-    onTranscriptionComplete('');
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
     toast({
       title: "Workspace Cleared",
-      description: "Ready for a new audio file.",
+      description: "Ready for new audio files.",
     });
-  }, [onTranscriptionComplete, audioUrl, toast]);
+  }, [clearQueue, toast]);
 
 
-  const downloadTranscription = useCallback(() => {
+  const downloadTranscription = useCallback((format: ExportFormat) => {
     if (!transcription.trim()) {
       toast({
         title: "Nothing to Download",
@@ -239,19 +433,40 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onTranscriptionCom
       return;
     }
 
+    // Every export follows the view: formatted or raw, verbatim or clean read
+    const shown = mode === 'clean' ? cleanTranscript(transcript, settings.fillerWords) : transcript;
+    let content: string;
+    let description = "Your transcription is being downloaded.";
+    if (format === 'srt' || format === 'vtt') {
+      const words = paragraphs
+        ? paragraphs.flatMap((paragraph) => paragraph.sentences.flatMap((sentence) => sentence.words))
+        : cleanWords ?? getTranscriptWords(transcript);
+      const subtitles = transcriptToSubtitles(transcript, words, format, settings.subtitles);
+      content = subtitles.text;
+      description = subtitles.fastCues > 0
+        ? `${subtitles.cueCount} captions. ${subtitles.fastCues} are faster than ${settings.subtitles.maxCharsPerSecond} characters per second, where the speech left no time to slow them.`
+        : `${subtitles.cueCount} captions.`;
+    } else if (format === 'json') {
+      content = transcriptToJson(shown);
+    } else {
+      content = paragraphs
+        ? formattedToText(transcript, paragraphs, { speakerLabels: true })
+        : transcriptToText(shown, { speakerLabels: true });
+    }
+
     const element = document.createElement('a');
-    const file = new Blob([transcription], { type: 'text/plain' });
+    const file = new Blob([content], { type: EXPORT_TYPES[format] });
     element.href = URL.createObjectURL(file);
-    element.download = `transcription-${new Date().toISOString().split('T')[0]}.txt`;
+    element.download = `transcription-${new Date().toISOString().split('T')[0]}${mode === 'clean' ? '-clean' : ''}.${format}`;
     document.body.appendChild(element);
     element.click();
     document.body.removeChild(element);
     
     toast({
       title: "Download Started",
-      description: "Your transcription is being downloaded.",
+      description,
     });
-  }, [transcription, toast]);
+  }, [transcript, transcription, paragraphs, cleanWords, mode, settings.fillerWords, settings.subtitles, toast]);
 
   return (
     <div className="space-y-6">
@@ -262,16 +477,29 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onTranscriptionCom
             AI Notes Generator
           </h1>
           <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
-            Upload your audio files (MP3/WAV) and get AI-powered transcription and summarized notes instantly
+            Upload audio or lecture videos (MP3, M4A, WAV, MP4 and more) or record a lecture, and get AI-powered transcription and summarized notes instantly
           </p>
+          <Link
+            to="/models"
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary transition-colors"
+          >
+            <HardDrive className="w-4 h-4" />
+            Manage transcription models
+          </Link>
           
           <div className="space-y-4">
             {/* File Upload Section */}
-            <div className="flex flex-col items-center gap-4">
+            <div
+              className={`flex flex-col items-center gap-4 rounded-lg border-2 border-dashed p-4 transition-colors ${isDragging ? 'border-primary bg-primary/5' : 'border-transparent'}`}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+            >
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".mp3,.wav,audio/mp3,audio/mpeg,audio/wav,audio/wave"
+                accept={ACCEPTED_FILE_TYPES}
+                multiple
                 onChange={handleFileUpload}
                 className="hidden"
               />
@@ -281,14 +509,71 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onTranscriptionCom
                 className="bg-primary hover:bg-primary-hover text-primary-foreground shadow-glow"
               >
                 <Upload className="w-5 h-5 mr-2" />
-                Upload Audio File
+                Upload Audio or Video
               </Button>
+              <span className="text-xs text-muted-foreground">
+                Select several files or drop them here to queue a batch of lectures
+              </span>
+              
+              <span className="text-xs uppercase tracking-wide text-muted-foreground">or</span>
+              
+              <MicrophoneRecorder
+                onRecordingComplete={handleRecordingStopped}
+                onRecordingStart={handleRecordingStart}
+                onRecordingFailed={live.cancel}
+                onAudioData={settings.liveCaptions ? live.pushAudio : undefined}
+                disabled={isFinishingLive}
+              />
+              
+              {live.captions && (
+                <div className="w-full max-w-md max-h-40 overflow-y-auto text-left text-sm bg-surface-elevated px-3 py-2 rounded-md border border-border/50" aria-live="polite">
+                  {live.captions.stable || live.captions.provisional ? (
+                    <>
+                      <span className="text-card-foreground">{live.captions.stable}</span>
+                      {live.captions.stable && live.captions.provisional && ' '}
+                      <span className="text-muted-foreground italic">{live.captions.provisional}</span>
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">Listening...</span>
+                  )}
+                </div>
+              )}
+              
+              <RecordingRecovery
+                onRecover={recoverRecording}
+                disabled={live.isActive}
+              />
+              
+              <TranscriptionQueue
+                items={queue.items}
+                selectedId={selectedId}
+                transcriberStatus={transcriberStatus}
+                chunkProgress={chunkProgress}
+                onSelect={setSelectedId}
+                onMove={queue.move}
+                onRetry={queue.retry}
+                onCancel={queue.cancel}
+                onRemove={removeItem}
+              />
               
-              {uploadedFile && (
+              {selectedItem && (
                 <div className="space-y-3">
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground bg-surface-elevated px-3 py-2 rounded-md border border-border/50">
-                    <FileAudio className="w-4 h-4 text-primary" />
-                    <span>{uploadedFile.name}</span>
+                  <div className="text-sm text-muted-foreground bg-surface-elevated px-3 py-2 rounded-md border border-border/50">
+                    <div className="flex items-center gap-2">
+                      <FileAudio className="w-4 h-4 text-primary" />
+                      <span>{selectedItem.file.name}</span>
+                      {!isTranscribing && model.status !== 'idle' && (
+                        <span className="text-xs">
+                          {model.status === 'ready' && '· Model ready'}
+                          {model.status === 'downloading' && `· Downloading model${model.progress !== null ? ` ${Math.round(model.progress)}%` : '...'}`}
+                          {model.status === 'warming' && '· Warming up model...'}
+                          {model.status === 'error' && '· Model failed to load'}
+                        </span>
+                      )}
+                    </div>
+                    {selectedItem.probe && (
+                      <p className="mt-1 text-xs">{describeProbe(selectedItem.probe)}</p>
+                    )}
                   </div>
                   
                   {/* Audio Player Controls */}
@@ -317,6 +602,7 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onTranscriptionCom
                         ref={audioRef}
                         src={audioUrl}
                         onEnded={handleAudioEnded}
+                        onTimeUpdate={(event) => setCurrentTime(event.currentTarget.currentTime)}
                         className="hidden"
                       />
                     )}
@@ -325,19 +611,28 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onTranscriptionCom
               )}
             </div>
             
+            {/* Transcription Settings */}
+            <div className="max-w-2xl mx-auto">
+              <TranscriptionSettingsPanel
+                settings={settings}
+                onChange={updateSettings}
+                disabled={isTranscribing || live.isActive}
+              />
+            </div>
+            
             {/* Action Buttons */}
             <div className="flex justify-center gap-4 flex-wrap">
               <Button
-                onClick={transcribeAudio}
+                onClick={startQueue}
                 size="lg"
                 variant="secondary"
-                disabled={!uploadedFile || isTranscribing}
+                disabled={!hasQueuedFiles || queue.isRunning || live.isActive}
                 className="shadow-glow"
               >
-                {isTranscribing ? (
+                {activeItem ? (
                   <>
                     <div className="w-5 h-5 mr-2 animate-spin border-2 border-current border-t-transparent rounded-full"></div>
-                    Transcribing...
+                    {transcriberStatus === 'paused' ? 'Paused' : 'Transcribing...'}
                   </>
                 ) : (
                   <>
@@ -351,41 +646,223 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onTranscriptionCom
                 onClick={clearWorkspace}
                 variant="secondary"
                 size="lg"
-                disabled={!uploadedFile && !transcription.trim()}
+                disabled={queue.items.length === 0}
               >
                 <RotateCcw className="w-5 h-5 mr-2" />
                 Clear
               </Button>
               
-              <Button
-                onClick={downloadTranscription}
-                variant="secondary"
-                size="lg"
-                disabled={!transcription.trim()}
-              >
-                <Download className="w-5 h-5 mr-2" />
-                Download
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="secondary"
+                    size="lg"
+                    disabled={!transcription.trim()}
+                  >
+                    <Download className="w-5 h-5 mr-2" />
+                    Download
+                    <ChevronDown className="w-4 h-4 ml-2" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => downloadTranscription('txt')}>Text (.txt)</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => downloadTranscription('srt')}>SubRip subtitles (.srt)</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => downloadTranscription('vtt')}>WebVTT subtitles (.vtt)</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => downloadTranscription('json')}>Segments as JSON (.json)</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
+
+            {/* Transcription Progress */}
+            {isTranscribing && (
+              <div className="max-w-md mx-auto space-y-2 text-left">
+                {activeItem && (
+                  <p className="text-sm text-card-foreground truncate">{activeItem.file.name}</p>
+                )}
+                {transcriberStatus === 'loading' ? (
+                  <>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>
+                        {model.status === 'warming' ? 'Warming up Whisper model...' : 'Downloading Whisper model...'}
+                      </span>
+                      {model.progress !== null && <span>{Math.round(model.progress)}%</span>}
+                    </div>
+                    <Progress value={model.progress ?? 0} className="h-2" />
+                  </>
+                ) : transcriberStatus === 'transcribing' || transcriberStatus === 'paused' ? (
+                  <>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>{transcriberStatus === 'paused' ? 'Paused' : 'Transcribing audio...'}</span>
+                      {chunkProgress.total > 0 && (
+                        <span>Chunk {chunkProgress.completed} of {chunkProgress.total}</span>
+                      )}
+                    </div>
+                    <Progress
+                      value={chunkProgress.total > 0 ? (chunkProgress.completed / chunkProgress.total) * 100 : 0}
+                      className="h-2"
+                    />
+                  </>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {isFinishingLive ? 'Finishing live transcription...' : 'Decoding audio...'}
+                  </p>
+                )}
+
+                {partialText && (
+                  <p className="text-xs text-muted-foreground line-clamp-3">
+                    {partialText}
+                  </p>
+                )}
+
+                {activeItem && (
+                  <div className="flex justify-center gap-2 pt-1">
+                    {transcriberStatus === 'paused' ? (
+                      <Button onClick={resumeTranscription} variant="outline" size="sm">
+                        <Play className="w-4 h-4 mr-1" />
+                        Resume
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={pauseTranscription}
+                        variant="outline"
+                        size="sm"
+                        disabled={transcriberStatus === 'idle'}
+                      >
+                        <Pause className="w-4 h-4 mr-1" />
+                        Pause
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => activeItem && queue.cancel(activeItem.id)}
+                      variant="outline"
+                      size="sm"
+                      disabled={transcriberStatus === 'idle'}
+                    >
+                      <Square className="w-4 h-4 mr-1" />
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </Card>
 
       {/* Transcription Display */}
-      {transcription && (
+      {selectedItem && transcript && (
         <Card className="p-6 bg-surface-elevated border-border/50 shadow-elegant">
           <div className="flex items-center gap-2 mb-4">
             <FileAudio className="w-5 h-5 text-primary" />
             <h3 className="text-lg font-semibold text-card-foreground">
               Transcribed Text
             </h3>
+            <span className="ml-auto text-xs text-muted-foreground">
+              {getLanguageName(transcript.language)}
+              {transcript.translated && ' · translated to English'}
+            </span>
+            <Button
+              variant={isSearching ? 'secondary' : 'ghost'}
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setIsSearching((searching) => !searching)}
+              disabled={transcript.segments.length === 0}
+              aria-label="Find and replace"
+              aria-pressed={isSearching}
+            >
+              <Search className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={undo} disabled={!history.canUndo} aria-label="Undo correction">
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={redo} disabled={!history.canRedo} aria-label="Redo correction">
+              <Redo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant={isEditing ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setIsEditing((editing) => !editing)}
+              disabled={transcript.segments.length === 0}
+            >
+              {isEditing ? <Check className="w-4 h-4 mr-2" /> : <Pencil className="w-4 h-4 mr-2" />}
+              {isEditing ? 'Done' : 'Edit'}
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-4">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={isFormatted ? 'formatted' : 'raw'}
+              onValueChange={(value) => value && setIsFormatted(value === 'formatted')}
+              aria-label="Transcript layout"
+            >
+              <ToggleGroupItem value="raw" className="h-8 px-2 text-xs" title="Segments as the recognizer heard them">
+                Raw
+              </ToggleGroupItem>
+              <ToggleGroupItem value="formatted" className="h-8 px-2 text-xs" title="Punctuated sentences in paragraphs">
+                Formatted
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as TranscriptMode)}
+              aria-label="Transcript mode"
+            >
+              <ToggleGroupItem value="verbatim" className="h-8 px-2 text-xs" title="Every word as spoken">
+                Verbatim
+              </ToggleGroupItem>
+              <ToggleGroupItem value="clean" className="h-8 px-2 text-xs" title="Without filler words, stutters and false starts">
+                Clean read
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <span className="text-xs text-muted-foreground">Downloads follow the view.</span>
+          </div>
+          <div className="mb-4">
+            <SpeakerPanel
+              key={selectedItem.id}
+              transcript={transcript}
+              file={selectedItem.file}
+              probe={selectedItem.probe}
+              onChange={history.changeSpeakers}
+            />
           </div>
-          <div className="bg-surface p-4 rounded-lg border border-border/30 max-h-96 overflow-y-auto">
-            <p className="text-card-foreground whitespace-pre-wrap leading-relaxed text-sm">
-              {transcription}
-            </p>
-            <div className="mt-2 pt-2 border-t border-border/30 text-xs text-muted-foreground">
-              Words: {transcription.split(/\s+/).filter(word => word.length > 0).length.toLocaleString()}
+          {searchResult && (
+            <div className="mb-4">
+              <FindReplacePanel
+                transcript={transcript}
+                options={search}
+                result={searchResult}
+                onChange={(update) => setSearch((current) => ({ ...current, ...update }))}
+                onReplaceAll={replaceAll}
+                onSeek={audioUrl ? seekTo : undefined}
+                onClose={() => setIsSearching(false)}
+              />
+            </div>
+          )}
+          <div className="bg-surface p-4 rounded-lg border border-border/30">
+            {isEditing ? (
+              <TranscriptEditor
+                transcript={transcript}
+                currentTime={currentTime}
+                onSeek={audioUrl ? seekTo : undefined}
+                onCorrect={history.commit}
+              />
+            ) : (
+              <TranscriptView
+                transcript={transcript}
+                currentTime={currentTime}
+                isPlaying={isPlaying}
+                onSeek={audioUrl ? seekTo : undefined}
+                highlights={searchResult?.matches}
+                paragraphs={paragraphs}
+                words={cleanWords}
+              />
+            )}
+            <div className="mt-2 pt-2 border-t border-border/30 space-y-2 text-xs text-muted-foreground">
+              <div>Words: {countWords(transcription).toLocaleString()}</div>
+              <CorrectionHistory corrections={transcript.corrections ?? []} onSeek={audioUrl ? seekTo : undefined} />
             </div>
           </div>
         </Card>
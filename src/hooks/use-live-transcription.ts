@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createLiveTranscription, type LiveCaptions, type LiveTranscription } from '@/lib/live-transcription';
+import type { ModelSelection } from '@/lib/transcription-settings';
+import type { TranscribeOptions } from '@/workers/transcription-protocol';
+
+export function useLiveTranscription() {
+  // null while no live session is running
+  const [captions, setCaptions] = useState<LiveCaptions | null>(null);
+  const sessionRef = useRef<LiveTranscription | null>(null);
+
+  useEffect(() => {
+    return () => sessionRef.current?.cancel();
+  }, []);
+
+  const start = useCallback((selection: ModelSelection, options: TranscribeOptions) => {
+    sessionRef.current?.cancel();
+    setCaptions({ stable: '', provisional: '' });
+    sessionRef.current = createLiveTranscription(selection, options, setCaptions);
+  }, []);
+
+  const pushAudio = useCallback((samples: Float32Array, sampleRate: number) => {
+    sessionRef.current?.push(samples, sampleRate);
+  }, []);
+
+  const finish = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session) return null;
+
+    sessionRef.current = null;
+    try {
+      return await session.finish();
+    } finally {
+      setCaptions(null);
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+    setCaptions(null);
+  }, []);
+
+  return {
+    captions,
+    isActive: captions !== null,
+    start,
+    pushAudio,
+    finish,
+    cancel,
+  };
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { getModelState, preloadModel, setModelSource, subscribeModelState, type ModelState } from '@/lib/model-manager';
+
+export function useModelManager() {
+  const [state, setState] = useState<ModelState>(getModelState);
+
+  useEffect(() => subscribeModelState(setState), []);
+
+  return {
+    ...state,
+    preload: preloadModel,
+    setSource: setModelSource,
+  };
+}
@@ -0,0 +1,306 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  appendRecordingChunk,
+  createRecording,
+  deleteRecording,
+  HEARTBEAT_MS,
+  releaseRecording,
+  touchRecording,
+  type StoredRecording,
+} from '@/lib/recording-store';
+
+export type RecorderState = 'inactive' | 'recording' | 'paused';
+
+// Preferred containers, in order; browsers support different subsets
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+// How often MediaRecorder hands over a slice of encoded audio
+const TIMESLICE_MS = 1000;
+
+// Forwards raw microphone samples from the audio thread in blocks of about 0.1 s
+const CAPTURE_PROCESSOR = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.block = new Float32Array(Math.round(sampleRate / 10));
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+
+    for (let i = 0; i < channels[0].length; i++) {
+      let sum = 0;
+      for (const channel of channels) sum += channel[i];
+      this.block[this.filled++] = sum / channels.length;
+
+      if (this.filled === this.block.length) {
+        this.port.postMessage(this.block);
+        this.block = new Float32Array(this.block.length);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+interface UseRecorderOptions {
+  onRecordingComplete: (blob: Blob) => void;
+  // Raw mono samples as they are recorded, excluding time spent paused
+  onAudioData?: (samples: Float32Array, sampleRate: number) => void;
+}
+
+function getSupportedMimeType() {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+export function useRecorder({ onRecordingComplete, onAudioData }: UseRecorderOptions) {
+  const [state, setState] = useState<RecorderState>('inactive');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  // Writes to IndexedDB, chained so slices are stored in order
+  const storageRef = useRef<Promise<StoredRecording | null>>(Promise.resolve(null));
+  const sequenceRef = useRef(0);
+  const frameRef = useRef<number | null>(null);
+  // Time recorded before the current run, and when the current run started
+  const elapsedBeforeRef = useRef(0);
+  const runStartedAtRef = useRef<number | null>(null);
+  const onCompleteRef = useRef(onRecordingComplete);
+  onCompleteRef.current = onRecordingComplete;
+  const onAudioDataRef = useRef(onAudioData);
+  onAudioDataRef.current = onAudioData;
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const all = await navigator.mediaDevices.enumerateDevices();
+    setDevices(all.filter((device) => device.kind === 'audioinput'));
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  const getElapsedMs = useCallback(() => {
+    const runStartedAt = runStartedAtRef.current;
+    return elapsedBeforeRef.current + (runStartedAt ? Date.now() - runStartedAt : 0);
+  }, []);
+
+  // Elapsed timer, excluding time spent paused
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const interval = setInterval(() => setElapsedMs(getElapsedMs()), 250);
+    return () => clearInterval(interval);
+  }, [state, getElapsedMs]);
+
+  // Slices stop while paused, so the stored recording is kept marked as open
+  useEffect(() => {
+    if (state !== 'paused') return;
+    const interval = setInterval(() => {
+      storageRef.current.then((stored) => stored && touchRecording(stored.id)).catch((err) => {
+        console.error('Could not update persisted recording:', err);
+      });
+    }, HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [state]);
+
+  const releaseInput = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setLevel(0);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      // Slices already stored stay in IndexedDB and are offered for recovery
+      if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+        storageRef.current.then((stored) => stored && releaseRecording(stored.id));
+      }
+      releaseInput();
+    };
+  }, [releaseInput]);
+
+  const startCapture = useCallback(async (audioContext: AudioContext, source: MediaStreamAudioSourceNode) => {
+    const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR], { type: 'application/javascript' }));
+    try {
+      await audioContext.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const capture = new AudioWorkletNode(audioContext, 'pcm-capture', { numberOfOutputs: 0 });
+    capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      if (recorderRef.current?.state === 'recording') {
+        onAudioDataRef.current?.(event.data, audioContext.sampleRate);
+      }
+    };
+    source.connect(capture);
+  }, []);
+
+  const startLevelMeter = useCallback((audioContext: AudioContext, source: MediaStreamAudioSourceNode) => {
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+      }
+      // RMS scaled so normal speech sits around the middle of the meter
+      setLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') return;
+    setError(null);
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+      });
+      streamRef.current = stream;
+      // Device labels are only exposed once permission has been granted
+      refreshDevices();
+
+      const audioContext = new AudioContext();
+      const source = audioContext.createMediaStreamSource(stream);
+      audioContextRef.current = audioContext;
+      if (onAudioDataRef.current) {
+        await startCapture(audioContext, source);
+      }
+
+      const recorder = new MediaRecorder(stream, { mimeType: getSupportedMimeType() });
+      chunksRef.current = [];
+      sequenceRef.current = 0;
+
+      // Recording carries on in memory if storage is unavailable or full
+      storageRef.current = createRecording(recorder.mimeType || getSupportedMimeType() || '').catch((err) => {
+        console.error('Could not persist recording:', err);
+        return null;
+      });
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+        chunksRef.current.push(event.data);
+
+        const sequence = sequenceRef.current++;
+        const elapsed = getElapsedMs();
+        storageRef.current = storageRef.current.then(async (stored) => {
+          if (!stored) return null;
+          try {
+            await appendRecordingChunk(stored, sequence, event.data, elapsed);
+          } catch (err) {
+            console.error('Could not persist recording slice:', err);
+          }
+          return stored;
+        });
+      };
+      recorder.onstop = () => {
+        const blob = new Blob(chunksRef.current, { type: recorder.mimeType });
+        chunksRef.current = [];
+        releaseInput();
+        setState('inactive');
+        onCompleteRef.current(blob);
+
+        // The recording finished normally, so there is nothing to recover
+        storageRef.current = storageRef.current.then(async (stored) => {
+          if (stored) await deleteRecording(stored.id);
+          return null;
+        }).catch((err) => {
+          console.error('Could not remove persisted recording:', err);
+          return null;
+        });
+      };
+
+      recorderRef.current = recorder;
+      elapsedBeforeRef.current = 0;
+      runStartedAtRef.current = Date.now();
+      setElapsedMs(0);
+
+      recorder.start(TIMESLICE_MS);
+      startLevelMeter(audioContext, source);
+      setState('recording');
+    } catch (err) {
+      console.error('Error starting recording:', err);
+      releaseInput();
+      setError(err instanceof Error ? err.message : 'Could not access the microphone.');
+      throw err;
+    }
+  }, [deviceId, getElapsedMs, refreshDevices, releaseInput, startCapture, startLevelMeter]);
+
+  const pause = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+
+    recorder.pause();
+    if (runStartedAtRef.current) {
+      elapsedBeforeRef.current += Date.now() - runStartedAtRef.current;
+    }
+    runStartedAtRef.current = null;
+    setElapsedMs(elapsedBeforeRef.current);
+    setState('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== 'paused') return;
+
+    recorder.resume();
+    runStartedAtRef.current = Date.now();
+    setState('recording');
+  }, []);
+
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return;
+
+    if (runStartedAtRef.current) {
+      elapsedBeforeRef.current += Date.now() - runStartedAtRef.current;
+    }
+    runStartedAtRef.current = null;
+    setElapsedMs(elapsedBeforeRef.current);
+    recorder.stop();
+  }, []);
+
+  return {
+    state,
+    elapsedMs,
+    level,
+    devices,
+    deviceId,
+    setDeviceId,
+    error,
+    isSupported: typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia,
+    start,
+    pause,
+    resume,
+    stop,
+  };
+}
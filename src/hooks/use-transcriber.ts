@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAbortError } from '@/lib/model-manager';
+import {
+  deleteCheckpoint,
+  saveCheckpoint,
+  type TranscriptionCheckpoint,
+} from '@/lib/transcription-checkpoints';
+import type { ModelSelection } from '@/lib/transcription-settings';
+import {
+  createStreamTranscription,
+  type AudioStream,
+  type StreamTranscription,
+  type WindowedTranscriptionResult,
+} from '@/lib/windowed-transcription';
+import type { TranscribeOptions } from '@/workers/transcription-protocol';
+import { useModelManager } from '@/hooks/use-model-manager';
+
+export type TranscriberStatus = 'idle' | 'loading' | 'transcribing' | 'paused';
+
+export interface ChunkProgress {
+  completed: number;
+  total: number;
+}
+
+interface ActiveJob {
+  transcription: StreamTranscription;
+  controller: AbortController | null;
+  // Set while the job is being stopped so that it can be resumed later
+  pausing: boolean;
+  checkpoint: TranscriptionCheckpoint | null;
+  // Checkpoint writes, kept in order so an older one never lands last
+  saving: Promise<void>;
+  resolve: (result: WindowedTranscriptionResult) => void;
+  reject: (error: unknown) => void;
+}
+
+export function useTranscriber() {
+  const model = useModelManager();
+  const [isRunning, setIsRunning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress>({ completed: 0, total: 0 });
+  const [partialChunks, setPartialChunks] = useState<string[]>([]);
+  const jobRef = useRef<ActiveJob | null>(null);
+
+  const settle = useCallback((job: ActiveJob, keepCheckpoint: boolean) => {
+    if (jobRef.current === job) {
+      jobRef.current = null;
+    }
+    job.transcription.close();
+    setIsPaused(false);
+
+    const { checkpoint } = job;
+    if (checkpoint && !keepCheckpoint) {
+      job.saving = job.saving
+        .then(() => deleteCheckpoint(checkpoint.fileHash))
+        .catch((error) => console.warn('Could not delete transcription checkpoint:', error));
+    }
+  }, []);
+
+  const runJob = useCallback((job: ActiveJob) => {
+    const controller = new AbortController();
+    job.controller = controller;
+    job.pausing = false;
+    setIsRunning(true);
+    setIsPaused(false);
+
+    job.transcription
+      .run(controller.signal)
+      .then(
+        (result) => {
+          settle(job, false);
+          job.resolve(result);
+        },
+        (error) => {
+          // A paused job keeps its completed windows and its promise stays pending
+          if (job.pausing && isAbortError(error)) {
+            setIsPaused(true);
+            return;
+          }
+          // A failed job can be retried from its checkpoint; a cancelled one is discarded
+          settle(job, !isAbortError(error));
+          job.reject(error);
+        },
+      )
+      .finally(() => {
+        job.controller = null;
+        setIsRunning(false);
+      });
+  }, [settle]);
+
+  // Resolves once every window is transcribed, across any pauses; rejects
+  // with an AbortError if cancelled. With a checkpoint, windows it already
+  // holds are skipped and each new one is saved to it.
+  const transcribe = useCallback((
+    stream: AudioStream,
+    selection: ModelSelection,
+    options: TranscribeOptions,
+    checkpoint: TranscriptionCheckpoint | null = null,
+  ) => {
+    setChunkProgress({ completed: 0, total: 0 });
+    setPartialChunks([]);
+
+    return new Promise<WindowedTranscriptionResult>((resolve, reject) => {
+      const transcription = createStreamTranscription(stream, selection, options, {
+        onProgress: (completed, total) => setChunkProgress({ completed, total }),
+        onPartial: (index, text) => {
+          setPartialChunks((chunks) => {
+            const next = [...chunks];
+            next[index] = text;
+            return next;
+          });
+        },
+        onWindow: (windows, languages) => {
+          if (!checkpoint) return;
+          const update = { ...checkpoint, windows: [...windows], languages: [...languages] };
+          job.saving = job.saving
+            .then(() => saveCheckpoint(update))
+            .catch((error) => console.warn('Could not save transcription checkpoint:', error));
+        },
+      }, checkpoint ?? undefined);
+      const job: ActiveJob = {
+        transcription,
+        controller: null,
+        pausing: false,
+        checkpoint,
+        saving: Promise.resolve(),
+        resolve,
+        reject,
+      };
+      jobRef.current = job;
+      runJob(job);
+    });
+  }, [runJob]);
+
+  const pause = useCallback(() => {
+    const job = jobRef.current;
+    if (!job?.controller) return;
+    job.pausing = true;
+    job.controller.abort();
+  }, []);
+
+  const resume = useCallback(() => {
+    const job = jobRef.current;
+    if (!job || job.controller) return;
+    runJob(job);
+  }, [runJob]);
+
+  const cancel = useCallback(() => {
+    const job = jobRef.current;
+    if (!job) return;
+
+    if (job.controller) {
+      job.pausing = false;
+      job.controller.abort();
+    } else {
+      settle(job, false);
+      job.reject(new DOMException('Transcription was stopped', 'AbortError'));
+    }
+  }, [settle]);
+
+  useEffect(() => {
+    return () => {
+      jobRef.current?.controller?.abort();
+      jobRef.current?.transcription.close();
+    };
+  }, []);
+
+  let status: TranscriberStatus = 'idle';
+  if (isPaused) {
+    status = 'paused';
+  } else if (isRunning) {
+    status = model.status === 'ready' ? 'transcribing' : 'loading';
+  }
+
+  return {
+    status,
+    model,
+    chunkProgress,
+    partialText: partialChunks.filter(Boolean).join(' '),
+    transcribe,
+    pause,
+    resume,
+    cancel,
+  };
+}
@@ -0,0 +1,82 @@
+import { useCallback, useState } from 'react';
+import type { Transcript } from '@/lib/transcript';
+import {
+  applyCorrections,
+  applySpeakerLabels,
+  revertCorrections,
+  type SpeakerChange,
+  type TranscriptCorrection,
+} from '@/lib/transcript-editing';
+
+// Undo and redo for hand corrections and speaker changes. Each step is a group
+// of corrections made together, so e.g. a replace-all is undone at once, or a
+// change of speakers. Steps are kept per transcript id, so switching between
+// files does not lose them. Steps are applied to the latest transcript, so a
+// step that finishes late, such as speaker identification, keeps the edits
+// made while it ran.
+
+type EditStep = { corrections: TranscriptCorrection[] } | { speakers: SpeakerChange };
+
+interface EditSteps {
+  undo: EditStep[];
+  redo: EditStep[];
+}
+
+const NO_STEPS: EditSteps = { undo: [], redo: [] };
+
+function applyStep(transcript: Transcript, step: EditStep) {
+  return 'corrections' in step
+    ? applyCorrections(transcript, step.corrections)
+    : applySpeakerLabels(transcript, step.speakers.after);
+}
+
+function revertStep(transcript: Transcript, step: EditStep) {
+  return 'corrections' in step
+    ? revertCorrections(transcript, step.corrections)
+    : applySpeakerLabels(transcript, step.speakers.before);
+}
+
+export function useTranscriptHistory(
+  id: string | null,
+  onChange: (id: string, update: (transcript: Transcript) => Transcript) => void,
+) {
+  const [steps, setSteps] = useState<Record<string, EditSteps>>({});
+  const current = (id && steps[id]) || NO_STEPS;
+
+  const push = useCallback((step: EditStep) => {
+    if (!id) return;
+    onChange(id, (transcript) => applyStep(transcript, step));
+    setSteps((all) => ({ ...all, [id]: { undo: [...(all[id]?.undo ?? []), step], redo: [] } }));
+  }, [id, onChange]);
+
+  const commit = useCallback((corrections: TranscriptCorrection[]) => {
+    if (corrections.length > 0) push({ corrections });
+  }, [push]);
+
+  const changeSpeakers = useCallback((speakers: SpeakerChange) => {
+    push({ speakers });
+  }, [push]);
+
+  const undo = useCallback(() => {
+    const step = current.undo[current.undo.length - 1];
+    if (!id || !step) return;
+    onChange(id, (transcript) => revertStep(transcript, step));
+    setSteps((all) => ({ ...all, [id]: { undo: current.undo.slice(0, -1), redo: [...current.redo, step] } }));
+  }, [id, current, onChange]);
+
+  const redo = useCallback(() => {
+    const step = current.redo[current.redo.length - 1];
+    if (!id || !step) return;
+    onChange(id, (transcript) => applyStep(transcript, step));
+    setSteps((all) => ({ ...all, [id]: { undo: [...current.undo, step], redo: current.redo.slice(0, -1) } }));
+  }, [id, current, onChange]);
+
+  return {
+    commit,
+    changeSpeakers,
+    undo,
+    redo,
+    canUndo: current.undo.length > 0,
+    canRedo: current.redo.length > 0,
+  };
+}
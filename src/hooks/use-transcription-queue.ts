@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranscriber } from '@/hooks/use-transcriber';
+import { UnsupportedAudioError } from '@/lib/audio';
+import { preprocessStream, type PreprocessOptions } from '@/lib/audio-preprocessing';
+import { openAudioStream } from '@/lib/audio-stream';
+import { applyVocabulary, type CourseVocabulary } from '@/lib/course-vocabulary';
+import type { MediaProbe } from '@/lib/media-probe';
+import { isAbortError } from '@/lib/model-manager';
+import { createTranscript, type Transcript } from '@/lib/transcript';
+import { openCheckpoint } from '@/lib/transcription-checkpoints';
+import type { ModelSelection } from '@/lib/transcription-settings';
+import type { TranscribeOptions } from '@/workers/transcription-protocol';
+
+// Files waiting for, going through, or done with transcription. Files are
+// transcribed one at a time in list order, so the transcripts of finished
+// lectures can be read and worked with while later ones are still running.
+
+export type QueueItemStatus = 'queued' | 'transcribing' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  // What the file turned out to contain; null for recordings
+  probe: MediaProbe | null;
+  status: QueueItemStatus;
+  transcript: Transcript | null;
+  error: string | null;
+}
+
+export interface QueueEntry {
+  file: File;
+  probe: MediaProbe | null;
+  // Already transcribed elsewhere, e.g. by live captions
+  transcript?: Transcript;
+}
+
+export interface QueueJobSettings {
+  selection: ModelSelection;
+  options: TranscribeOptions;
+  preprocessing: PreprocessOptions;
+  // Terms near-misses in the transcript are corrected to
+  vocabulary: CourseVocabulary | null;
+}
+
+export interface TranscriptionQueueHandlers {
+  onStart?: (item: QueueItem, resumedChunks: number) => void;
+  // Called once an item is done, has failed, or was cancelled
+  onSettled?: (item: QueueItem) => void;
+}
+
+function createItemId() {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function describeError(error: unknown) {
+  return error instanceof UnsupportedAudioError ? error.message : 'Could not transcribe this file.';
+}
+
+// Settings are read when each file starts, so changes apply to files not yet started
+export function useTranscriptionQueue(settings: QueueJobSettings, handlers: TranscriptionQueueHandlers = {}) {
+  const transcriber = useTranscriber();
+  const { transcribe, cancel: cancelTranscription } = transcriber;
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  // Whether queued files are picked up as soon as the worker is free
+  const [isRunning, setIsRunning] = useState(false);
+  const activeIdRef = useRef<string | null>(null);
+  // Stops the active file while it is still being opened, before the transcriber has a job
+  const setupControllerRef = useRef<AbortController | null>(null);
+  const settingsRef = useRef(settings);
+  const handlersRef = useRef(handlers);
+  settingsRef.current = settings;
+  handlersRef.current = handlers;
+
+  const updateItem = useCallback((id: string, update: Partial<QueueItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...update } : item)));
+  }, []);
+
+  const runItem = useCallback(async (item: QueueItem) => {
+    activeIdRef.current = item.id;
+    setActiveId(item.id);
+    updateItem(item.id, { status: 'transcribing', error: null });
+    const controller = new AbortController();
+    setupControllerRef.current = controller;
+
+    const { selection, options, preprocessing, vocabulary } = settingsRef.current;
+    let settled: QueueItem;
+    try {
+      // Progress is saved per window, so the same file picks up where it left off after a reload
+      const checkpoint = await openCheckpoint(item.file, selection, options, preprocessing).catch((error) => {
+        console.warn('Transcription progress will not be saved:', error);
+        return null;
+      });
+      controller.signal.throwIfAborted();
+      handlersRef.current.onStart?.(item, checkpoint?.windows.length ?? 0);
+
+      // Decode on the main thread a block at a time, while the worker transcribes window by window
+      const source = await openAudioStream(item.file, item.probe);
+      if (controller.signal.aborted) {
+        source.close();
+        controller.signal.throwIfAborted();
+      }
+      setupControllerRef.current = null;
+      const { stream, timeline } = preprocessStream(source, preprocessing);
+      const result = await transcribe(stream, selection, options, checkpoint);
+      const output = applyVocabulary(timeline.mapOutput(result.output), vocabulary);
+      const transcript = createTranscript(output.chunks, {
+        language: output.language,
+        translated: options.task === 'translate',
+        duration: timeline.originalDuration,
+      });
+      settled = { ...item, status: 'done', transcript, error: null };
+    } catch (error) {
+      if (isAbortError(error)) {
+        settled = { ...item, status: 'cancelled', error: null };
+      } else {
+        console.error(`Error transcribing ${item.file.name}:`, error);
+        settled = { ...item, status: 'failed', error: describeError(error) };
+      }
+    }
+
+    updateItem(item.id, { status: settled.status, transcript: settled.transcript, error: settled.error });
+    setupControllerRef.current = null;
+    activeIdRef.current = null;
+    setActiveId(null);
+    handlersRef.current.onSettled?.(settled);
+  }, [transcribe, updateItem]);
+
+  // Start the next queued file whenever the worker is free
+  useEffect(() => {
+    if (!isRunning || activeIdRef.current) return;
+
+    const next = items.find((item) => item.status === 'queued');
+    if (next) {
+      runItem(next);
+    } else {
+      setIsRunning(false);
+    }
+  }, [isRunning, items, activeId, runItem]);
+
+  const add = useCallback((entries: QueueEntry[]) => {
+    const added = entries.map((entry): QueueItem => ({
+      id: createItemId(),
+      file: entry.file,
+      probe: entry.probe,
+      status: entry.transcript ? 'done' : 'queued',
+      transcript: entry.transcript ?? null,
+      error: null,
+    }));
+    setItems((current) => [...current, ...added]);
+    return added;
+  }, []);
+
+  const start = useCallback(() => setIsRunning(true), []);
+
+  // Changes a finished file's transcript, e.g. after a correction. The update
+  // is given the latest transcript, so changes made meanwhile are kept.
+  const updateTranscript = useCallback((id: string, update: (transcript: Transcript) => Transcript) => {
+    setItems((current) => current.map((item) => (
+      item.id === id && item.transcript ? { ...item, transcript: update(item.transcript) } : item
+    )));
+  }, []);
+
+  // Moves a file up (-1) or down (1) in the list
+  const move = useCallback((id: string, direction: -1 | 1) => {
+    setItems((current) => {
+      const index = current.findIndex((item) => item.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= current.length) return current;
+
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: 'queued', error: null });
+    setIsRunning(true);
+  }, [updateItem]);
+
+  const cancel = useCallback((id: string) => {
+    if (activeIdRef.current === id) {
+      // Settles through runItem once the transcription has stopped
+      setupControllerRef.current?.abort();
+      cancelTranscription();
+      return;
+    }
+
+    const item = items.find((candidate) => candidate.id === id);
+    if (item?.status !== 'queued') return;
+    updateItem(id, { status: 'cancelled' });
+    handlersRef.current.onSettled?.({ ...item, status: 'cancelled' });
+  }, [items, cancelTranscription, updateItem]);
+
+  // Unlike cancel, removing a file that has not started does not settle it
+  const remove = useCallback((id: string) => {
+    if (activeIdRef.current === id) {
+      setupControllerRef.current?.abort();
+      cancelTranscription();
+    }
+    setItems((current) => current.filter((item) => item.id !== id));
+  }, [cancelTranscription]);
+
+  const clear = useCallback(() => {
+    if (activeIdRef.current) {
+      setupControllerRef.current?.abort();
+      cancelTranscription();
+    }
+    setItems([]);
+    setIsRunning(false);
+  }, [cancelTranscription]);
+
+  return {
+    items,
+    activeId,
+    isRunning,
+    transcriber,
+    add,
+    start,
+    updateTranscript,
+    move,
+    retry,
+    cancel,
+    remove,
+    clear,
+  };
+}
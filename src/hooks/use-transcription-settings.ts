@@ -0,0 +1,20 @@
+import { useCallback, useState } from 'react';
+import {
+  loadTranscriptionSettings,
+  saveTranscriptionSettings,
+  type TranscriptionSettings,
+} from '@/lib/transcription-settings';
+
+export function useTranscriptionSettings() {
+  const [settings, setSettings] = useState<TranscriptionSettings>(loadTranscriptionSettings);
+
+  const updateSettings = useCallback((update: Partial<TranscriptionSettings>) => {
+    setSettings((current) => {
+      const next = { ...current, ...update };
+      saveTranscriptionSettings(next);
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,30 @@
+// Containers the upload accepts. The browser's decoder extracts the audio
+// track, so video files work as long as their audio codec is supported.
+
+export interface MediaFormat {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  video?: boolean;
+}
+
+export const MEDIA_FORMATS: MediaFormat[] = [
+  { label: 'MP3', extensions: ['mp3'], mimeTypes: ['audio/mpeg', 'audio/mp3'] },
+  { label: 'WAV', extensions: ['wav'], mimeTypes: ['audio/wav', 'audio/wave', 'audio/x-wav', 'audio/vnd.wave'] },
+  { label: 'M4A', extensions: ['m4a'], mimeTypes: ['audio/mp4', 'audio/x-m4a', 'audio/m4a'] },
+  { label: 'AAC', extensions: ['aac'], mimeTypes: ['audio/aac', 'audio/x-aac'] },
+  { label: 'OGG', extensions: ['ogg', 'oga', 'opus'], mimeTypes: ['audio/ogg', 'audio/opus'] },
+  { label: 'WebM', extensions: ['webm'], mimeTypes: ['audio/webm', 'video/webm'] },
+  { label: 'FLAC', extensions: ['flac'], mimeTypes: ['audio/flac', 'audio/x-flac'] },
+  { label: 'MP4', extensions: ['mp4'], mimeTypes: ['video/mp4'], video: true },
+  { label: 'MOV', extensions: ['mov'], mimeTypes: ['video/quicktime'], video: true },
+  { label: 'MKV', extensions: ['mkv'], mimeTypes: ['video/x-matroska', 'audio/x-matroska'], video: true },
+];
+
+// Value for the file input's accept attribute
+export const ACCEPTED_FILE_TYPES = MEDIA_FORMATS.flatMap((format) => [
+  ...format.extensions.map((extension) => `.${extension}`),
+  ...format.mimeTypes,
+]).join(',');
+
+export const SUPPORTED_FORMAT_LABELS = MEDIA_FORMATS.map((format) => format.label).join(', ');
@@ -0,0 +1,226 @@
+import { WHISPER_SAMPLING_RATE } from '@/lib/audio';
+import type { AudioStream } from '@/lib/windowed-transcription';
+import type { TranscriptionOutput } from '@/workers/transcription-protocol';
+
+// Optional clean-up of 16 kHz audio before it reaches Whisper. A simple
+// energy-based voice activity detector finds stretches without speech; long
+// ones are cut down to a short pause, which saves compute and keeps Whisper
+// from inventing text for room noise. Loudness is evened out by an automatic
+// gain that follows the level of the speech. Timestamps of the transcription
+// are mapped back to the original audio afterwards.
+
+export interface PreprocessOptions {
+  skipSilence: boolean;
+  normalizeLoudness: boolean;
+}
+
+// Kept audio starting at `processed` seconds came from `original` seconds
+interface TimelinePiece {
+  processed: number;
+  original: number;
+}
+
+const FRAME_SAMPLES = 480;
+const FRAME_SECONDS = FRAME_SAMPLES / WHISPER_SAMPLING_RATE;
+// Speech has to stand this far above the noise floor
+const SPEECH_MARGIN_DB = 12;
+// Frames quieter than this are never speech, however quiet the room
+const MIN_SPEECH_DB = -60;
+// The noise floor drops to any quieter frame at once but rises only slowly,
+// so a burst of speech is not mistaken for a noisier room
+const NOISE_FLOOR_RISE_DB = 0.1;
+// Silences are cut down to this much pause, half kept at each end, so words
+// trailing off or starting softly are not clipped
+const KEPT_PAUSE_SECONDS = 0.6;
+// Level speech is brought to, and the most it may be amplified or attenuated
+const TARGET_SPEECH_DB = -20;
+const MAX_GAIN_DB = 24;
+const MIN_GAIN_DB = -12;
+// How quickly the gain follows changes in speech level
+const LEVEL_SMOOTHING = 0.02;
+
+const HALF_PAUSE_FRAMES = Math.round(KEPT_PAUSE_SECONDS / 2 / FRAME_SECONDS);
+
+function frameDb(frame: Float32Array) {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += frame[i] * frame[i];
+  }
+  return 10 * Math.log10(sum / frame.length + 1e-12);
+}
+
+export function createAudioTimeline() {
+  const pieces: TimelinePiece[] = [{ processed: 0, original: 0 }];
+  let originalDuration = 0;
+
+  // Maps a time in the processed audio to the original. An end time that falls
+  // exactly on a cut belongs to the audio before it.
+  function toOriginal(time: number, isEnd = false) {
+    let low = 0;
+    let high = pieces.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      const piece = pieces[mid];
+      if (piece.processed < time || (!isEnd && piece.processed === time)) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    const piece = pieces[low];
+    return Math.min(originalDuration || Infinity, piece.original + (time - piece.processed));
+  }
+
+  return {
+    // Called when audio at `original` seconds follows a cut
+    addCut(processed: number, original: number) {
+      pieces.push({ processed, original });
+    },
+    setOriginalDuration(duration: number) {
+      originalDuration = duration;
+    },
+    get originalDuration() {
+      return originalDuration;
+    },
+    toOriginal,
+    mapOutput(output: TranscriptionOutput): TranscriptionOutput {
+      return {
+        ...output,
+        chunks: output.chunks.map((chunk) => ({
+          ...chunk,
+          timestamp: [
+            toOriginal(chunk.timestamp[0]),
+            chunk.timestamp[1] === null ? null : toOriginal(chunk.timestamp[1], true),
+          ],
+          words: chunk.words?.map((word) => ({ ...word, start: toOriginal(word.start), end: toOriginal(word.end, true) })),
+        })),
+      };
+    },
+  };
+}
+
+export type AudioTimeline = ReturnType<typeof createAudioTimeline>;
+
+// Wraps a stream so that reads return preprocessed audio. The timeline fills
+// in as the stream is read and is complete once read() has returned null.
+export function preprocessStream(source: AudioStream, options: PreprocessOptions) {
+  const timeline = createAudioTimeline();
+  let pending = new Float32Array(0);
+  let originalFrames = 0;
+  let processedFrames = 0;
+  let noiseFloor = MIN_SPEECH_DB;
+  let silentFrames = 0;
+  // Most recent silent frames past the first half pause, emitted only if speech follows
+  let held: Float32Array[] = [];
+  let skippedFrames = 0;
+  let speechDb: number | null = null;
+  let gain = 1;
+  let ended = false;
+
+  function isSpeech(level: number) {
+    noiseFloor = level < noiseFloor ? level : noiseFloor + NOISE_FLOOR_RISE_DB;
+    return level > MIN_SPEECH_DB && level > noiseFloor + SPEECH_MARGIN_DB;
+  }
+
+  function applyGain(frame: Float32Array, level: number, speech: boolean) {
+    if (speech) {
+      speechDb = speechDb === null ? level : speechDb + (level - speechDb) * LEVEL_SMOOTHING;
+    }
+    const targetDb = speechDb === null ? 0 : Math.min(MAX_GAIN_DB, Math.max(MIN_GAIN_DB, TARGET_SPEECH_DB - speechDb));
+    const target = 10 ** (targetDb / 20);
+
+    // Ramp across the frame so gain changes do not click
+    for (let i = 0; i < frame.length; i++) {
+      const sample = frame[i] * (gain + ((target - gain) * (i + 1)) / frame.length);
+      frame[i] = Math.max(-1, Math.min(1, sample));
+    }
+    gain = target;
+  }
+
+  function processFrames(input: Float32Array) {
+    const output: Float32Array[] = [];
+    const emit = (frame: Float32Array) => {
+      output.push(frame);
+      processedFrames++;
+    };
+
+    for (let offset = 0; offset < input.length; offset += FRAME_SAMPLES) {
+      const frame = input.slice(offset, offset + FRAME_SAMPLES);
+      const level = frameDb(frame);
+      const speech = isSpeech(level);
+      originalFrames++;
+      if (options.normalizeLoudness) {
+        applyGain(frame, level, speech);
+      }
+
+      if (!options.skipSilence) {
+        emit(frame);
+        continue;
+      }
+
+      if (speech) {
+        if (skippedFrames > 0) {
+          timeline.addCut(processedFrames * FRAME_SECONDS, (originalFrames - 1 - held.length) * FRAME_SECONDS);
+          skippedFrames = 0;
+        }
+        held.forEach(emit);
+        held = [];
+        silentFrames = 0;
+        emit(frame);
+      } else if (++silentFrames <= HALF_PAUSE_FRAMES) {
+        emit(frame);
+      } else {
+        held.push(frame);
+        if (held.length > HALF_PAUSE_FRAMES) {
+          held.shift();
+          skippedFrames++;
+        }
+      }
+    }
+    return output;
+  }
+
+  function concat(frames: Float32Array[]) {
+    const result = new Float32Array(frames.reduce((total, frame) => total + frame.length, 0));
+    let offset = 0;
+    frames.forEach((frame) => {
+      result.set(frame, offset);
+      offset += frame.length;
+    });
+    return result;
+  }
+
+  const stream: AudioStream = {
+    // Still the original length, so progress is an estimate until the end
+    duration: source.duration,
+    async read() {
+      while (!ended) {
+        const block = await source.read();
+        if (!block) {
+          // Whatever is left over is shorter than a frame
+          ended = true;
+          const rest = pending;
+          pending = new Float32Array(0);
+          timeline.setOriginalDuration(originalFrames * FRAME_SECONDS + rest.length / WHISPER_SAMPLING_RATE);
+          if (rest.length === 0) return null;
+          const frames = processFrames(rest);
+          return frames.length > 0 ? concat(frames) : null;
+        }
+
+        const input = new Float32Array(pending.length + block.length);
+        input.set(pending);
+        input.set(block, pending.length);
+        const whole = input.length - (input.length % FRAME_SAMPLES);
+        pending = input.slice(whole);
+
+        const frames = processFrames(input.subarray(0, whole));
+        // A block of nothing but cut silence yields nothing; keep reading
+        if (frames.length > 0) return concat(frames);
+      }
+      return null;
+    },
+    close: () => source.close(),
+  };
+
+  return { stream, timeline };
+}
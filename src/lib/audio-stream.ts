@@ -0,0 +1,537 @@
+import { UnsupportedAudioError, WHISPER_SAMPLING_RATE, createResampler, decodeAudioFile, mixToMono } from '@/lib/audio';
+import { openEncodedAudioTrack, type EncodedAudioTrack } from '@/lib/media-demux';
+import { ADTS_SAMPLE_RATES, MPEG_SAMPLE_RATES, parseWavHeader, sniffContainer, type MediaProbe, type WavLayout } from '@/lib/media-probe';
+import type { AudioStream } from '@/lib/windowed-transcription';
+
+// Reads an upload as a sequence of 16 kHz mono blocks, so a long lecture is
+// never decoded into memory all at once. PCM WAV is converted directly, and
+// MP3 and AAC streams are decoded a few megabytes at a time, cut on frame
+// boundaries. FLAC and compressed WAV are decoded the same way, each segment
+// given a copy of the file's header. The audio of MP4, MOV, Matroska, WebM
+// and Ogg files is taken out of its container and fed to a WebCodecs decoder.
+
+// Audio handed over per read for formats read without the browser's decoder
+const BLOCK_SECONDS = 60;
+// Compressed bytes decoded per read
+const SEGMENT_BYTES = 4 * 1024 * 1024;
+// How far past a segment end to look for the next frame header
+const FRAME_SEARCH_BYTES = 16 * 1024;
+// The same for FLAC, whose frames of high-resolution audio run to tens of kilobytes
+const FLAC_FRAME_SEARCH_BYTES = 256 * 1024;
+// Frames before a segment decoded again at its start. An MP3 frame can borrow
+// bits from up to 511 bytes of earlier frames, and AAC frames overlap their
+// neighbours, so the first frames of a segment decoded on its own come out
+// wrong. Their audio is kept from the segment before instead.
+const PRIMING_FRAMES = 8;
+// Encoded chunks queued in a WebCodecs decoder before waiting for it
+const MAX_DECODE_QUEUE = 64;
+
+// Layer III bitrates in kbit/s, for MPEG-1 and for MPEG-2/2.5
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+// Length of the MP3 (layer III) or ADTS frame whose header starts at offset, or null
+function frameLength(bytes: Uint8Array, offset: number): number | null {
+  if (offset + 6 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  if ((bytes[offset + 1] & 0xf6) === 0xf0) {
+    if (((bytes[offset + 2] >> 2) & 0x0f) >= ADTS_SAMPLE_RATES.length) return null;
+    const length = ((bytes[offset + 3] & 0x03) << 11) | (bytes[offset + 4] << 3) | (bytes[offset + 5] >> 5);
+    return length > 7 ? length : null;
+  }
+
+  const version = (bytes[offset + 1] >> 3) & 0x03;
+  const layer = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const rateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 0x0f || rateIndex === 3) return null;
+
+  const isMpeg1 = version === 3;
+  const sampleRate = MPEG_SAMPLE_RATES[rateIndex] / (isMpeg1 ? 1 : version === 2 ? 2 : 4);
+  const bitrate = (isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  return Math.floor(((isMpeg1 ? 144 : 72) * bitrate) / sampleRate) + padding;
+}
+
+// Seconds of audio in the MP3 or ADTS frame whose header starts at offset
+function frameDuration(bytes: Uint8Array, offset: number) {
+  if ((bytes[offset + 1] & 0xf6) === 0xf0) {
+    const blocks = (bytes[offset + 6] & 0x03) + 1;
+    return (1024 * blocks) / ADTS_SAMPLE_RATES[(bytes[offset + 2] >> 2) & 0x0f];
+  }
+  const version = (bytes[offset + 1] >> 3) & 0x03;
+  const sampleRate = MPEG_SAMPLE_RATES[(bytes[offset + 2] >> 2) & 0x03] / (version === 3 ? 1 : version === 2 ? 2 : 4);
+  return (version === 3 ? 1152 : 576) / sampleRate;
+}
+
+// First offset at or after from where two frames follow each other, so a
+// stray 0xFF byte in the audio data is not mistaken for a header
+function findFrameStart(bytes: Uint8Array, from: number) {
+  for (let i = from; i < bytes.length; i++) {
+    const length = frameLength(bytes, i);
+    if (length !== null && (i + length >= bytes.length || frameLength(bytes, i + length) !== null)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Offsets of the frames from `from` up to `to`, stepping over anything between them
+function listFrames(bytes: Uint8Array, from: number, to: number) {
+  const frames: number[] = [];
+  let offset = from;
+  while (offset < to) {
+    const length = frameLength(bytes, offset);
+    if (length === null) {
+      offset = findFrameStart(bytes, offset + 1);
+      if (offset === -1) break;
+      continue;
+    }
+    frames.push(offset);
+    offset += length;
+  }
+  return frames;
+}
+
+// Bytes taken by a leading ID3v2 tag, which can hold megabytes of cover art
+async function id3TagLength(file: Blob) {
+  const header = new Uint8Array(await file.slice(0, 10).arrayBuffer());
+  if (header.length < 10 || String.fromCharCode(...header.subarray(0, 3)) !== 'ID3') return 0;
+  const size = ((header[6] & 0x7f) << 21) | ((header[7] & 0x7f) << 14) | ((header[8] & 0x7f) << 7) | (header[9] & 0x7f);
+  return 10 + size + (header[5] & 0x10 ? 10 : 0);
+}
+
+function createSegmentedStream(file: Blob, probe: MediaProbe, dataOffset: number): AudioStream {
+  const audioContext = new AudioContext({ sampleRate: WHISPER_SAMPLING_RATE });
+  // The first frame not yet heard, and where decoding the segment that starts
+  // there begins, PRIMING_FRAMES earlier
+  let position = dataOffset;
+  let primingStart = dataOffset;
+
+  return {
+    duration: probe.duration,
+    async read() {
+      while (position < file.size) {
+        const start = position;
+        const from = primingStart;
+        const bytes = new Uint8Array(await file.slice(from, start + SEGMENT_BYTES + FRAME_SEARCH_BYTES).arrayBuffer());
+        const segmentEnd = start - from + SEGMENT_BYTES;
+        const frameStart = bytes.length > segmentEnd ? findFrameStart(bytes, segmentEnd) : -1;
+        const end = frameStart === -1 ? bytes.length : frameStart;
+        const frames = listFrames(bytes, start - from, end);
+        position = from + end;
+        primingStart = from + (frames[Math.max(0, frames.length - PRIMING_FRAMES)] ?? end);
+
+        try {
+          const audioBuffer = await audioContext.decodeAudioData(bytes.slice(0, end).buffer);
+          const samples = mixToMono(audioBuffer);
+          if (from === start) return samples;
+          // Keep only the audio of the new frames; the decoder may have dropped
+          // a priming frame it could not decode, so count from the end
+          const duration = frames.reduce((sum, frame) => sum + frameDuration(bytes, frame), 0);
+          return samples.subarray(Math.max(0, samples.length - Math.round(duration * WHISPER_SAMPLING_RATE)));
+        } catch (error) {
+          // Without its first segment the file is unreadable; later ones may be trailing tags
+          if (start === dataOffset) {
+            throw new UnsupportedAudioError(`This ${probe.format.label} file could not be decoded. It may be damaged.`);
+          }
+          console.warn(`Skipping undecodable data at byte ${start}:`, error);
+        }
+      }
+      return null;
+    },
+    close() {
+      audioContext.close();
+    },
+  };
+}
+
+// Decodes a file one segment at a time, each made by `nextSegment` from the
+// file's header and a run of whole frames or blocks, so it decodes on its own
+function createHeaderedStream(probe: MediaProbe, nextSegment: () => Promise<Uint8Array | null>): AudioStream {
+  const audioContext = new AudioContext({ sampleRate: WHISPER_SAMPLING_RATE });
+  let decodedAny = false;
+
+  return {
+    duration: probe.duration,
+    async read() {
+      for (let segment = await nextSegment(); segment; segment = await nextSegment()) {
+        try {
+          const audioBuffer = await audioContext.decodeAudioData(segment.buffer);
+          decodedAny = true;
+          return mixToMono(audioBuffer);
+        } catch (error) {
+          if (!decodedAny) {
+            throw new UnsupportedAudioError(`This ${probe.format.label} file could not be decoded. It may be damaged or use a codec your browser does not support.`);
+          }
+          console.warn('Skipping an undecodable segment:', error);
+        }
+      }
+      return null;
+    },
+    close() {
+      audioContext.close();
+    },
+  };
+}
+
+// CRC-8 of a FLAC frame header, polynomial 0x07
+function flacCrc8(bytes: Uint8Array, from: number, to: number) {
+  let crc = 0;
+  for (let i = from; i < to; i++) {
+    crc ^= bytes[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+// Whether a FLAC frame header whose checksum matches starts at offset
+function isFlacFrameStart(bytes: Uint8Array, offset: number) {
+  if (offset + 6 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xfe) !== 0xf8) return false;
+  const blockSizeCode = bytes[offset + 2] >> 4;
+  const rateCode = bytes[offset + 2] & 0x0f;
+  if (blockSizeCode === 0 || rateCode === 0x0f || bytes[offset + 3] >> 4 > 10 || bytes[offset + 3] & 0x01) return false;
+
+  // The frame or sample number is coded like UTF-8, in up to seven bytes
+  const lead = bytes[offset + 4];
+  let numberBytes = 1;
+  if (lead >= 0x80) {
+    numberBytes = 0;
+    for (let mask = 0x80; lead & mask; mask >>= 1) numberBytes++;
+    if (numberBytes < 2 || numberBytes > 7) return false;
+  }
+  const length = 4 + numberBytes
+    + (blockSizeCode === 6 ? 1 : blockSizeCode === 7 ? 2 : 0)
+    + (rateCode === 12 ? 1 : rateCode === 13 || rateCode === 14 ? 2 : 0);
+  return offset + length < bytes.length && flacCrc8(bytes, offset, offset + length) === bytes[offset + length];
+}
+
+async function openFlacStream(file: Blob, probe: MediaProbe): Promise<AudioStream | null> {
+  // Step over the metadata blocks, which can hold megabytes of cover art,
+  // keeping STREAMINFO
+  let offset = 4;
+  let streamInfo: Uint8Array | null = null;
+  for (let last = false; !last; ) {
+    const header = new Uint8Array(await file.slice(offset, offset + 4).arrayBuffer());
+    if (header.length < 4) return null;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    if ((header[0] & 0x7f) === 0) streamInfo = new Uint8Array(await file.slice(offset, offset + 4 + length).arrayBuffer());
+    last = (header[0] & 0x80) !== 0;
+    offset += 4 + length;
+  }
+  if (!streamInfo || streamInfo.length < 38) return null;
+
+  // Each segment gets STREAMINFO alone, without the sample count and
+  // checksum of the whole file
+  const segmentHeader = new Uint8Array(42);
+  segmentHeader.set([0x66, 0x4c, 0x61, 0x43]);
+  segmentHeader.set(streamInfo.subarray(0, 38), 4);
+  segmentHeader[4] = 0x80;
+  segmentHeader[21] &= 0xf0;
+  segmentHeader.fill(0, 22);
+
+  // Frames are coded independently, so segments need no priming
+  let position = offset;
+  return createHeaderedStream(probe, async () => {
+    if (position >= file.size) return null;
+    const bytes = new Uint8Array(await file.slice(position, position + SEGMENT_BYTES + FLAC_FRAME_SEARCH_BYTES).arrayBuffer());
+    let end = bytes.length;
+    for (let i = SEGMENT_BYTES; i < bytes.length; i++) {
+      if (isFlacFrameStart(bytes, i)) {
+        end = i;
+        break;
+      }
+    }
+    position += end;
+
+    const segment = new Uint8Array(segmentHeader.length + end);
+    segment.set(segmentHeader);
+    segment.set(bytes.subarray(0, end), segmentHeader.length);
+    return segment;
+  });
+}
+
+function isPlainPcm(layout: WavLayout) {
+  return (
+    (layout.audioFormat === 1 && [8, 16, 24, 32].includes(layout.bitsPerSample)) ||
+    (layout.audioFormat === 3 && [32, 64].includes(layout.bitsPerSample))
+  );
+}
+
+function readPcmSample(view: DataView, offset: number, layout: WavLayout) {
+  if (layout.audioFormat === 3) {
+    return layout.bitsPerSample === 32 ? view.getFloat32(offset, true) : view.getFloat64(offset, true);
+  }
+  switch (layout.bitsPerSample) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24:
+      return (view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16)) / 8388608;
+    default:
+      return view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+function createWavStream(file: Blob, layout: WavLayout, dataOffset: number, duration: number | null): AudioStream {
+  const sampleBytes = layout.bitsPerSample / 8;
+  const frameBytes = sampleBytes * layout.channels;
+  const dataEnd = layout.dataSize === null ? file.size : Math.min(file.size, dataOffset + layout.dataSize);
+  const blockBytes = layout.sampleRate * BLOCK_SECONDS * frameBytes;
+  const resample = layout.sampleRate === WHISPER_SAMPLING_RATE ? null : createResampler(layout.sampleRate, WHISPER_SAMPLING_RATE);
+  let position = dataOffset;
+
+  return {
+    duration,
+    async read() {
+      if (position + frameBytes > dataEnd) return null;
+
+      const end = Math.min(dataEnd, position + blockBytes);
+      const view = new DataView(await file.slice(position, end).arrayBuffer());
+      position = end;
+
+      const mono = new Float32Array(Math.floor(view.byteLength / frameBytes));
+      for (let frame = 0; frame < mono.length; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < layout.channels; channel++) {
+          sum += readPcmSample(view, frame * frameBytes + channel * sampleBytes, layout);
+        }
+        mono[frame] = sum / layout.channels;
+      }
+      return resample ? resample(mono) : mono;
+    },
+    close() {},
+  };
+}
+
+function createDecodedStream(file: Blob, probe: MediaProbe | null): AudioStream {
+  let samples: Float32Array | null = null;
+  let position = 0;
+
+  return {
+    duration: probe?.duration ?? null,
+    async read() {
+      if (!samples) {
+        samples = await decodeAudioFile(file, probe?.format);
+      }
+      if (position >= samples.length) return null;
+
+      const block = samples.subarray(position, position + BLOCK_SECONDS * WHISPER_SAMPLING_RATE);
+      position += block.length;
+      return block;
+    },
+    close() {
+      samples = null;
+    },
+  };
+}
+
+// Compressed WAV, such as ADPCM or µ-law, cut on block boundaries. Each
+// segment is the file's header with its sizes set to the segment's.
+async function createCompressedWavStream(file: Blob, layout: WavLayout, probe: MediaProbe): Promise<AudioStream> {
+  const header = new Uint8Array(await file.slice(0, layout.dataOffset).arrayBuffer());
+  const dataEnd = layout.dataSize === null ? file.size : Math.min(file.size, layout.dataOffset + layout.dataSize);
+  const blockAlign = Math.max(1, layout.blockAlign);
+  const segmentBytes = Math.max(blockAlign, SEGMENT_BYTES - (SEGMENT_BYTES % blockAlign));
+  let position = layout.dataOffset;
+
+  return createHeaderedStream(probe, async () => {
+    if (position >= dataEnd) return null;
+    const data = new Uint8Array(await file.slice(position, Math.min(dataEnd, position + segmentBytes)).arrayBuffer());
+    position += data.length;
+
+    const segment = new Uint8Array(header.length + data.length);
+    segment.set(header);
+    segment.set(data, header.length);
+    const view = new DataView(segment.buffer);
+    // A segment always fits plain RIFF sizes, even when cut from RF64
+    segment.set([0x52, 0x49, 0x46, 0x46]);
+    view.setUint32(4, segment.length - 8, true);
+    view.setUint32(header.length - 4, data.length, true);
+    return segment;
+  });
+}
+
+// Decodes a demuxed track with WebCodecs, or returns null when the browser
+// has no AudioDecoder or can't decode the track's codec
+async function openWebCodecsStream(track: EncodedAudioTrack, probe: MediaProbe): Promise<AudioStream | null> {
+  if (typeof AudioDecoder === 'undefined') return null;
+  const support = await AudioDecoder.isConfigSupported(track.config).catch(() => null);
+  if (!support?.supported) return null;
+
+  const decoded: Float32Array[] = [];
+  let decodedLength = 0;
+  let decodeError: DOMException | null = null;
+  let resample: ((input: Float32Array) => Float32Array) | null = null;
+  let resampleRate = WHISPER_SAMPLING_RATE;
+  // Resolves a wait for the decoder to take more chunks or give an error
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const decoder = new AudioDecoder({
+    output(data) {
+      const mono = new Float32Array(data.numberOfFrames);
+      const plane = new Float32Array(data.numberOfFrames);
+      for (let channel = 0; channel < data.numberOfChannels; channel++) {
+        data.copyTo(plane, { planeIndex: channel, format: 'f32-planar' });
+        for (let i = 0; i < plane.length; i++) {
+          mono[i] += plane[i] / data.numberOfChannels;
+        }
+      }
+      if (data.sampleRate !== resampleRate) {
+        resampleRate = data.sampleRate;
+        resample = resampleRate === WHISPER_SAMPLING_RATE ? null : createResampler(resampleRate, WHISPER_SAMPLING_RATE);
+      }
+      data.close();
+
+      const samples = resample ? resample(mono) : mono;
+      decoded.push(samples);
+      decodedLength += samples.length;
+    },
+    error(error) {
+      decodeError = error;
+      notify();
+    },
+  });
+  decoder.addEventListener('dequeue', notify);
+  decoder.configure(track.config);
+
+  const failed = () => new UnsupportedAudioError(`This ${probe.format.label} file could not be decoded. It may be damaged.`);
+  let ended = false;
+
+  return {
+    duration: probe.duration,
+    async read() {
+      while (!ended && decodedLength < BLOCK_SECONDS * WHISPER_SAMPLING_RATE) {
+        const frames = await track.read();
+        for (const frame of frames ?? []) {
+          while (decoder.decodeQueueSize > MAX_DECODE_QUEUE && !decodeError) {
+            await new Promise<void>((resolve) => {
+              wake = resolve;
+            });
+          }
+          if (decodeError) throw failed();
+          decoder.decode(new EncodedAudioChunk({ type: 'key', timestamp: frame.timestamp, data: frame.data }));
+        }
+        if (!frames) {
+          // Flushing may reset the decoder, so it is only done at the end
+          await decoder.flush().catch(() => {});
+          ended = true;
+        }
+      }
+      if (decodeError) throw failed();
+      if (decodedLength === 0) return null;
+
+      const block = new Float32Array(decodedLength);
+      let offset = 0;
+      decoded.forEach((samples) => {
+        block.set(samples, offset);
+        offset += samples.length;
+      });
+      decoded.length = 0;
+      decodedLength = 0;
+      return block;
+    },
+    close() {
+      if (decoder.state !== 'closed') decoder.close();
+    },
+  };
+}
+
+// ADTS headers for the raw AAC frames of a track, from its AudioSpecificConfig
+function createAdtsWrapper(config: AudioDecoderConfig) {
+  const specific = config.description instanceof Uint8Array ? config.description : null;
+  if (!specific || specific.length < 2) return null;
+  const objectType = specific[0] >> 3;
+  const rateIndex = ((specific[0] & 0x07) << 1) | (specific[1] >> 7);
+  const channelConfig = (specific[1] >> 3) & 0x0f;
+  // HE-AAC is carried as plain AAC at its core rate; decoders find the SBR data
+  const profile = objectType === 5 || objectType === 29 ? 2 : objectType;
+  if (profile < 1 || profile > 4 || rateIndex >= ADTS_SAMPLE_RATES.length || channelConfig === 0) return null;
+
+  return (frame: Uint8Array) => {
+    const length = frame.length + 7;
+    const adts = new Uint8Array(length);
+    adts.set([
+      0xff,
+      0xf1,
+      ((profile - 1) << 6) | (rateIndex << 2) | (channelConfig >> 2),
+      ((channelConfig & 0x03) << 6) | (length >> 11),
+      (length >> 3) & 0xff,
+      ((length & 0x07) << 5) | 0x1f,
+      0xfc,
+    ]);
+    adts.set(frame, 7);
+    return adts;
+  };
+}
+
+// Without WebCodecs, an AAC or MP3 track is taken out of its container, AAC
+// given ADTS headers, and decoded in segments like a bare stream. Only the
+// compressed track is held in memory, a small part of its decoded size.
+async function createRepackagedStream(track: EncodedAudioTrack, probe: MediaProbe): Promise<AudioStream | null> {
+  const wrap = track.config.codec === 'mp3'
+    ? (frame: Uint8Array) => frame
+    : track.config.codec.startsWith('mp4a.40.') ? createAdtsWrapper(track.config) : null;
+  if (!wrap) return null;
+
+  const parts: Uint8Array[] = [];
+  for (let frames = await track.read(); frames; frames = await track.read()) {
+    frames.forEach((frame) => parts.push(wrap(frame.data)));
+  }
+  return createSegmentedStream(new Blob(parts), probe, 0);
+}
+
+async function openContainerStream(file: Blob, probe: MediaProbe) {
+  const track = await openEncodedAudioTrack(file, probe.format.label);
+  if (!track) return null;
+  return (await openWebCodecsStream(track, probe)) ?? createRepackagedStream(track, probe);
+}
+
+async function readHeader(file: Blob) {
+  return new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer());
+}
+
+export async function openAudioStream(file: Blob, probe: MediaProbe | null): Promise<AudioStream> {
+  // Recordings are queued without a probe, so their container is read here
+  const container = probe ? null : sniffContainer(await readHeader(file));
+  const media = probe ?? (container && { ...container, duration: null });
+
+  switch (media?.format.label) {
+    case 'WAV': {
+      const layout = parseWavHeader(await readHeader(file));
+      if (layout?.dataOffset != null) {
+        return isPlainPcm(layout)
+          ? createWavStream(file, layout, layout.dataOffset, media.duration)
+          : createCompressedWavStream(file, layout, media);
+      }
+      break;
+    }
+    case 'MP3':
+    case 'AAC':
+      return createSegmentedStream(file, media, await id3TagLength(file));
+    case 'FLAC': {
+      const stream = await openFlacStream(file, media);
+      if (stream) return stream;
+      break;
+    }
+    case 'MP4':
+    case 'M4A':
+    case 'MOV':
+    case 'MKV':
+    case 'WebM':
+    case 'OGG': {
+      const stream = await openContainerStream(file, media);
+      if (stream) return stream;
+      console.warn(`Decoding this ${media.format.label} file all at once, as its audio can't be decoded a part at a time here`);
+      break;
+    }
+  }
+  return createDecodedStream(file, media);
+}
@@ -0,0 +1,91 @@
+import type { MediaFormat } from '@/lib/audio-formats';
+
+// Sample rate expected by the Whisper feature extractor
+export const WHISPER_SAMPLING_RATE = 16000;
+
+// The file's audio could not be decoded, usually because of its codec
+export class UnsupportedAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedAudioError';
+  }
+}
+
+// Decodes an audio or video file into 16 kHz mono samples. Workers have no
+// AudioContext, so this runs on the main thread and the samples are handed to
+// the worker. The browser resamples to the context's rate while decoding.
+export async function decodeAudioFile(file: Blob, format?: MediaFormat): Promise<Float32Array> {
+  const arrayBuffer = await file.arrayBuffer();
+  const audioContext = new AudioContext({ sampleRate: WHISPER_SAMPLING_RATE });
+
+  try {
+    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+    return mixToMono(audioBuffer);
+  } catch (error) {
+    console.error('Error decoding audio:', error);
+    throw new UnsupportedAudioError(
+      format?.video
+        ? `The audio track of this ${format.label} video could not be decoded. It may have no audio, or use a codec your browser does not support (such as AC-3 or DTS).`
+        : `This ${format?.label ?? 'audio'} file could not be decoded. It may be damaged or use a codec your browser does not support.`,
+    );
+  } finally {
+    audioContext.close();
+  }
+}
+
+export function mixToMono(audioBuffer: AudioBuffer): Float32Array {
+  if (audioBuffer.numberOfChannels === 1) {
+    // Copy so the samples can be transferred to a worker
+    return new Float32Array(audioBuffer.getChannelData(0));
+  }
+
+  const mono = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / audioBuffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+// Converts consecutive blocks of a live signal to another sample rate. When
+// downsampling, each output sample averages the input samples it covers so
+// speech frequencies survive without aliasing from the higher band.
+export function createResampler(fromRate: number, toRate: number) {
+  const ratio = fromRate / toRate;
+  let carry = new Float32Array(0);
+  // Fractional read position into carry
+  let position = 0;
+
+  return (input: Float32Array): Float32Array => {
+    const samples = new Float32Array(carry.length + input.length);
+    samples.set(carry);
+    samples.set(input, carry.length);
+
+    const count = Math.max(0, Math.floor((samples.length - position) / ratio));
+    const output = new Float32Array(count);
+
+    for (let i = 0; i < count; i++) {
+      const from = position + i * ratio;
+      const index = Math.floor(from);
+
+      if (ratio <= 1) {
+        const next = index + 1 < samples.length ? samples[index + 1] : samples[index];
+        output[i] = samples[index] + (next - samples[index]) * (from - index);
+      } else {
+        const to = Math.max(index + 1, Math.floor(from + ratio));
+        let sum = 0;
+        for (let j = index; j < to; j++) {
+          sum += samples[j];
+        }
+        output[i] = sum / (to - index);
+      }
+    }
+
+    const consumed = position + count * ratio;
+    carry = samples.slice(Math.floor(consumed));
+    position = consumed - Math.floor(consumed);
+    return output;
+  };
+}
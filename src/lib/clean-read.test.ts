@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILLER_WORDS, cleanTranscript, removeDisfluencies } from '@/lib/clean-read';
+import { getTranscriptWords, type Transcript } from '@/lib/transcript';
+
+// One untimed segment per text, each a second long
+function transcriptOf(...texts: string[]): Transcript {
+  return {
+    segments: texts.map((text, index) => ({ start: index, end: index + 1, text })),
+    language: 'en',
+    translated: false,
+    duration: texts.length,
+  };
+}
+
+function clean(text: string, fillers = DEFAULT_FILLER_WORDS) {
+  return removeDisfluencies(getTranscriptWords(transcriptOf(text)), fillers).map((word) => word.text).join(' ');
+}
+
+describe('removeDisfluencies', () => {
+  it('removes filler words in any case and with punctuation', () => {
+    expect(clean('So um the enzyme, uh, binds Um here')).toBe('So the enzyme binds here');
+  });
+
+  it('keeps a removed word\'s sentence ending on the word before', () => {
+    expect(clean('that is the reaction, um. Next we heat it')).toBe('that is the reaction. Next we heat it');
+  });
+
+  it('passes a removed word\'s capital to the next word', () => {
+    expect(clean('It works. Uh the next one fails')).toBe('It works. The next one fails');
+  });
+
+  it('takes the commas around a removed aside with it', () => {
+    expect(clean('we talked about, you know, enzymes')).toBe('we talked about enzymes');
+  });
+
+  it('only removes a phrase filler when it is set off', () => {
+    expect(clean('do you know why it fails')).toBe('do you know why it fails');
+    expect(clean('and I mean it')).toBe('and I mean it');
+  });
+
+  it('uses the filler words it is given', () => {
+    expect(clean('well um basically it works', ['basically'])).toBe('well um it works');
+    expect(clean('um it works', [])).toBe('um it works');
+  });
+
+  it('removes stutters and repeated phrases', () => {
+    expect(clean('the the cell')).toBe('the cell');
+    expect(clean('in the in the cell')).toBe('in the cell');
+    expect(clean('th- the cell')).toBe('the cell');
+  });
+
+  it('keeps doubled words that are usually meant', () => {
+    expect(clean('it is very very hot')).toBe('it is very very hot');
+    expect(clean('I know that that is true')).toBe('I know that that is true');
+  });
+
+  it('keeps a word repeated across a sentence end', () => {
+    expect(clean('We stop here. Here we start')).toBe('We stop here. Here we start');
+  });
+
+  it('removes a false start up to the restart', () => {
+    expect(clean('we were— we are ready')).toBe('we are ready');
+  });
+
+  it('removes a fragment cut off with a hyphen', () => {
+    expect(clean('the photo- light reaction')).toBe('the light reaction');
+  });
+
+  it('keeps repeats by different speakers', () => {
+    const transcript = transcriptOf('yes', 'yes');
+    transcript.segments[0].speaker = 0;
+    transcript.segments[1].speaker = 1;
+    expect(removeDisfluencies(getTranscriptWords(transcript), DEFAULT_FILLER_WORDS).map((word) => word.text)).toEqual(['yes', 'yes']);
+  });
+});
+
+describe('cleanTranscript', () => {
+  it('keeps every segment and its timing', () => {
+    const cleaned = cleanTranscript(transcriptOf('um', 'so uh this works'), DEFAULT_FILLER_WORDS);
+    expect(cleaned.segments.map(({ start, end, text }) => [start, end, text])).toEqual([[0, 1, ''], [1, 2, 'so this works']]);
+  });
+
+  it('keeps the timing of the words left in', () => {
+    const transcript: Transcript = {
+      ...transcriptOf(''),
+      segments: [{
+        start: 0,
+        end: 3,
+        text: 'Um the cell',
+        words: [
+          { start: 0, end: 1, text: 'Um', confidence: 0.4 },
+          { start: 1, end: 2, text: 'the', confidence: 0.9 },
+          { start: 2, end: 3, text: 'cell', confidence: 0.8 },
+        ],
+      }],
+    };
+    expect(cleanTranscript(transcript, DEFAULT_FILLER_WORDS).segments[0].words).toEqual([
+      { start: 1, end: 2, text: 'The', confidence: 0.9 },
+      { start: 2, end: 3, text: 'cell', confidence: 0.8 },
+    ]);
+  });
+});
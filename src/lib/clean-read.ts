@@ -0,0 +1,136 @@
+import { getTranscriptWords, type Transcript, type TranscriptWord } from '@/lib/transcript';
+
+// Clean read: the transcript without filler words, stutters, repeated words
+// and false starts. It is worked out from the verbatim transcript whenever it
+// is shown or exported, so the verbatim text and its timestamps are kept.
+
+export type TranscriptMode = 'verbatim' | 'clean';
+
+export const DEFAULT_FILLER_WORDS = ['um', 'umm', 'uh', 'uhm', 'er', 'erm', 'ah', 'hmm', 'mm', 'you know', 'I mean'];
+
+// Doubled words that are usually meant, as in "that that" or "very very"
+const INTENDED_REPEATS = new Set(['that', 'had', 'is', 'very', 'really', 'no', 'bye', 'ha']);
+// Longest phrase whose immediate repeat counts as a restart, in words
+const MAX_REPEATED_PHRASE = 3;
+// Longest clause abandoned for a restart, in words, as in "we were— we are"
+const MAX_FALSE_START = 4;
+
+const PAUSE_PUNCTUATION = /[,;:.!?…。？！।۔؟]["'”’)\]]*$/u;
+const SENTENCE_END = /[.!?…。？！।۔؟]["'”’)\]]*$/u;
+const TRAILING_PUNCTUATION = /[,;:.!?…。？！।۔؟]+["'”’)\]]*$/u;
+// A word broken off with a hyphen or dash
+const CUT_OFF = /\p{L}(-|--|—|–)$/u;
+
+// Lower case without surrounding punctuation, so "Um," matches "um"
+function toKey(text: string) {
+  return text.toLowerCase().replace(/’/g, "'").replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}']+$/gu, '');
+}
+
+function capitalize(text: string) {
+  return text.replace(/\p{L}/u, (letter) => letter.toUpperCase());
+}
+
+// Which words a clean read leaves out
+function findDisfluencies(words: TranscriptWord[], fillers: string[]) {
+  const keys = words.map((word) => toKey(word.text));
+  const removed = words.map(() => false);
+  const remove = (from: number, to: number) => removed.fill(true, from, to);
+  const phrases = fillers.map((filler) => filler.split(/\s+/).map(toKey).filter(Boolean)).filter((phrase) => phrase.length > 0);
+
+  // Whether a pause or a change of speaker or segment sets word i off from the one before
+  const setOffBefore = (i: number) => i === 0
+    || PAUSE_PUNCTUATION.test(words[i - 1].text)
+    || words[i - 1].segmentIndex !== words[i].segmentIndex
+    || words[i - 1].speaker !== words[i].speaker;
+  const setOffAfter = (i: number) => i === words.length - 1 || setOffBefore(i + 1);
+
+  keys.forEach((_, i) => {
+    phrases.forEach((phrase) => {
+      if (phrase.some((key, offset) => keys[i + offset] !== key)) return;
+      // "you know" is only a filler when it is set off, not in "do you know why"
+      if (phrase.length === 1 || (setOffBefore(i) && setOffAfter(i + phrase.length - 1))) remove(i, i + phrase.length);
+    });
+  });
+
+  // Repeats, as in "the the" or "in the in the": the earlier copies go
+  keys.forEach((_, i) => {
+    for (let length = MAX_REPEATED_PHRASE; length >= 1; length--) {
+      if (i + 2 * length > words.length) continue;
+      const first = keys.slice(i, i + length);
+      const repeats = first.every((key, offset) => key && key === keys[i + length + offset]);
+      const sameSpeaker = words.slice(i, i + 2 * length).every((word) => word.speaker === words[i].speaker);
+      const endsSentence = SENTENCE_END.test(words[i + length - 1].text);
+      if (repeats && sameSpeaker && !endsSentence && !(length === 1 && INTENDED_REPEATS.has(first[0]))) {
+        remove(i, i + length);
+        break;
+      }
+    }
+  });
+
+  // Cut-off words: stutters such as "th- the" and false starts such as "we were— we are"
+  words.forEach((word, i) => {
+    const next = keys[i + 1];
+    if (!CUT_OFF.test(word.text) || !next) return;
+    if (next.startsWith(keys[i])) {
+      remove(i, i + 1);
+      return;
+    }
+    let start = i;
+    while (start > 0 && i - start < MAX_FALSE_START - 1 && !setOffBefore(start)) start--;
+    if (keys[start] === next) {
+      remove(start, i + 1);
+    } else if (/\p{L}-$/u.test(word.text)) {
+      // A fragment such as "photo-" on its own
+      remove(i, i + 1);
+    }
+  });
+  return removed;
+}
+
+// `words` without disfluencies. A removed word's sentence-ending punctuation
+// and capital move to its neighbours, so "the reaction, um." reads "the reaction."
+export function removeDisfluencies(words: TranscriptWord[], fillers: string[]): TranscriptWord[] {
+  const removed = findDisfluencies(words, fillers);
+  const kept: TranscriptWord[] = [];
+  let capitalizeNext = false;
+
+  words.forEach((word, i) => {
+    const previous = kept[kept.length - 1];
+    const sameSpeaker = previous?.speaker === word.speaker;
+    if (!removed[i]) {
+      kept.push(capitalizeNext ? { ...word, text: capitalize(word.text) } : word);
+      capitalizeNext = false;
+      return;
+    }
+
+    const punctuation = word.text.match(TRAILING_PUNCTUATION)?.[0];
+    if (punctuation && previous && sameSpeaker && !SENTENCE_END.test(previous.text)) {
+      // The commas around a removed aside go with it: "about, you know, enzymes" reads "about enzymes"
+      const replacement = SENTENCE_END.test(punctuation) ? punctuation : '';
+      if (replacement || /,$/.test(previous.text)) {
+        kept[kept.length - 1] = { ...previous, text: previous.text.replace(/[,;:]+$/, '') + replacement };
+      }
+    }
+    const beganSentence = !previous || !sameSpeaker || SENTENCE_END.test(previous.text);
+    if (beganSentence && /^\p{Lu}/u.test(word.text)) capitalizeNext = true;
+  });
+  return kept;
+}
+
+// The transcript as a clean read, with the same segments and timestamps
+export function cleanTranscript(transcript: Transcript, fillers: string[]): Transcript {
+  const bySegment = new Map<number, TranscriptWord[]>();
+  removeDisfluencies(getTranscriptWords(transcript), fillers).forEach((word) => {
+    bySegment.set(word.segmentIndex, [...(bySegment.get(word.segmentIndex) ?? []), word]);
+  });
+
+  return {
+    ...transcript,
+    segments: transcript.segments.map((segment, index) => {
+      const kept = bySegment.get(index) ?? [];
+      const text = kept.map((word) => word.text).join(' ');
+      if (!segment.words) return { ...segment, text };
+      return { ...segment, text, words: kept.map(({ start, end, text, confidence }) => ({ start, end, text, confidence })) };
+    }),
+  };
+}
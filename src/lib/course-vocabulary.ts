@@ -0,0 +1,193 @@
+import { spreadWords, type WordTiming } from '@/lib/transcript-merge';
+import type { TranscriptionOutput } from '@/workers/transcription-protocol';
+
+// Terms Whisper tends to get wrong in a particular course: names of theorems,
+// compounds, professors. They are given to the decoder as a prompt, which
+// makes it likelier to spell them right, and afterwards near-misses still in
+// the transcript are corrected to the listed spelling.
+
+export interface CourseVocabulary {
+  id: string;
+  name: string;
+  // Spelled the way they should appear in transcripts; may be several words
+  terms: string[];
+}
+
+interface Word {
+  // Punctuation around the word, kept when it is corrected
+  before: string;
+  core: string;
+  // A possessive 's, kept when the term itself is not possessive
+  possessive: string;
+  after: string;
+}
+
+interface Match {
+  from: number;
+  to: number;
+  term: string;
+  possessive: string;
+  distance: number;
+}
+
+const WORD_PATTERN = /^([^\p{L}\p{N}]*)(.*?)((?:['’]s)?)([^\p{L}\p{N}]*)$/iu;
+const POSSESSIVE_PATTERN = /['’]s$/i;
+
+export function createCourseVocabulary(name: string): CourseVocabulary {
+  return { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name, terms: [] };
+}
+
+// One term per line; commas separate terms too
+export function parseTerms(text: string) {
+  const terms = text.split(/[\n,]/).map((term) => term.trim().replace(/\s+/g, ' ')).filter(Boolean);
+  return [...new Set(terms)];
+}
+
+export function buildVocabularyPrompt(vocabulary: CourseVocabulary | null) {
+  if (!vocabulary || vocabulary.terms.length === 0) return null;
+  return `${vocabulary.terms.join(', ')}.`;
+}
+
+// Letters and digits only, so spacing, hyphens and case do not count as errors
+function toKey(text: string) {
+  return text.normalize('NFKD').replace(/[^\p{L}\p{N}]/gu, '').toLowerCase();
+}
+
+// Edits allowed before a candidate no longer counts as the term. Short terms
+// are only fixed for case and spacing, since one edit turns them into
+// ordinary words.
+function maxDistance(key: string) {
+  if (key.length < 5) return 0;
+  return Math.floor((key.length - 1) / 4);
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions and
+// swaps of neighbouring letters, giving up once it exceeds the limit
+function editDistance(a: string, b: string, limit: number) {
+  if (Math.abs(a.length - b.length) > limit) return Infinity;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return Infinity;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length] <= limit ? previous[b.length] : Infinity;
+}
+
+function parseWords(tokens: string[]): Word[] {
+  return tokens.map((token) => {
+    const [, before, core, possessive, after] = token.match(WORD_PATTERN) as RegExpMatchArray;
+    return { before, core, possessive, after };
+  });
+}
+
+// Spans of words that are probably a misheard term. Whisper may split a term
+// into more words or run two together, so spans one word longer or shorter
+// than the term are tried as well.
+function findMatches(words: Word[], terms: string[]) {
+  const matches: Match[] = [];
+  terms.forEach((term) => {
+    const termKey = toKey(term);
+    if (!termKey) return;
+    const termWords = term.split(' ').length;
+    const limit = maxDistance(termKey);
+    const termIsPossessive = POSSESSIVE_PATTERN.test(term);
+
+    for (let length = Math.max(1, termWords - 1); length <= termWords + 1; length++) {
+      for (let from = 0; from + length <= words.length; from++) {
+        const span = words.slice(from, from + length);
+        // Punctuation inside the span means it crosses a sentence or clause
+        if (span.slice(0, -1).some((word) => word.after) || span.slice(1).some((word) => word.before)) continue;
+        // Most misheard names keep their first sound, while one edit away from
+        // a long term is rarely an unrelated word
+        const last = span[span.length - 1];
+        const possessive = termIsPossessive ? '' : last.possessive;
+        const key = toKey(span.map((word) => (word === last && possessive ? word.core : word.core + word.possessive)).join(''));
+        if (!key || (limit < 2 && key[0] !== termKey[0])) continue;
+
+        // Splitting or joining words is an error already, so allow fewer others
+        const distance = editDistance(key, termKey, length === termWords ? limit : Math.floor(limit / 2));
+        // Exact matches are kept too, so no other term claims their words
+        if (distance !== Infinity) {
+          matches.push({ from, to: from + length, term, possessive, distance });
+        }
+      }
+    }
+  });
+  return matches;
+}
+
+// Runs of the given words with their corrected text, covering every word in order
+function correctWords(tokens: string[], terms: string[]) {
+  const words = parseWords(tokens);
+
+  // Closest matches first, then longer terms, and no word is corrected twice
+  const matches = findMatches(words, terms).sort(
+    (a, b) => a.distance - b.distance || b.term.length - a.term.length,
+  );
+  const taken = new Array<boolean>(words.length).fill(false);
+  const chosen = new Map<number, Match>();
+  matches.forEach((match) => {
+    for (let i = match.from; i < match.to; i++) {
+      if (taken[i]) return;
+    }
+    taken.fill(true, match.from, match.to);
+    chosen.set(match.from, match);
+  });
+
+  const runs: { from: number; to: number; text: string }[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const match = chosen.get(i);
+    if (match) {
+      runs.push({ from: i, to: match.to, text: `${words[i].before}${match.term}${match.possessive}${words[match.to - 1].after}` });
+      i = match.to - 1;
+    } else {
+      runs.push({ from: i, to: i + 1, text: tokens[i] });
+    }
+  }
+  return runs;
+}
+
+export function correctToVocabulary(text: string, terms: string[]) {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0 || terms.length === 0) return text;
+  return correctWords(tokens, terms).map((run) => run.text).join(' ');
+}
+
+// A corrected term is spread over the time of the words it replaces, and is
+// no more certain than the least certain of them
+function correctTimedWords(words: WordTiming[], terms: string[]): WordTiming[] {
+  return correctWords(words.map((word) => word.text), terms).flatMap(({ from, to, text }) => {
+    const replaced = words.slice(from, to);
+    const confidences = replaced.map((word) => word.confidence).filter((value) => value !== null);
+    const confidence = confidences.length > 0 ? Math.min(...confidences) : null;
+    return spreadWords(replaced[0].start, replaced[replaced.length - 1].end, text.split(' ')).map((word) => ({
+      ...word,
+      confidence,
+    }));
+  });
+}
+
+export function applyVocabulary(output: TranscriptionOutput, vocabulary: CourseVocabulary | null): TranscriptionOutput {
+  if (!vocabulary || vocabulary.terms.length === 0) return output;
+
+  const chunks = output.chunks.map((chunk) => {
+    if (!chunk.words) return { ...chunk, text: correctToVocabulary(chunk.text, vocabulary.terms) };
+    const words = correctTimedWords(chunk.words, vocabulary.terms);
+    return { ...chunk, words, text: words.map((word) => word.text).join(' ') };
+  });
+  return { ...output, chunks, text: chunks.map((chunk) => chunk.text).join(' ') };
+}
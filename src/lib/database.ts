@@ -0,0 +1,52 @@
+// Shared IndexedDB database for data that has to survive a reload or crash
+
+const DATABASE_NAME = 'lecture-notes';
+const DATABASE_VERSION = 2;
+
+export const RECORDINGS_STORE = 'recordings';
+export const RECORDING_CHUNKS_STORE = 'recording-chunks';
+export const TRANSCRIPTION_CHECKPOINTS_STORE = 'transcription-checkpoints';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(database: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    database.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+    const chunks = database.createObjectStore(RECORDING_CHUNKS_STORE, { autoIncrement: true });
+    chunks.createIndex('recordingId', 'recordingId');
+  }
+  if (oldVersion < 2) {
+    database.createObjectStore(TRANSCRIPTION_CHECKPOINTS_STORE, { keyPath: 'fileHash' });
+  }
+}
+
+export function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call retry, e.g. after the user frees storage
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
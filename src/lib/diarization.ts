@@ -0,0 +1,257 @@
+import { WHISPER_SAMPLING_RATE } from '@/lib/audio';
+import { loadModelSource, resolveModelPath } from '@/lib/model-source';
+import type { Transcript } from '@/lib/transcript';
+import { createSampleBuffer, type AudioStream } from '@/lib/windowed-transcription';
+import type { SpeakerEvent, SpeakerRequest } from '@/workers/speaker-protocol';
+
+// Works out who is speaking in each transcript segment, entirely in the
+// browser: every segment's audio is turned into a speaker embedding, and
+// segments whose embeddings are close are clustered into one speaker.
+
+export interface DiarizationOptions {
+  // Fixed number of speakers, or null to decide from the audio
+  speakerCount: number | null;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// Embeddings are unreliable on very short audio, so short segments are
+// widened around their middle; long ones only need a representative stretch
+const MIN_CLIP_SECONDS = 1.5;
+const MAX_CLIP_SECONDS = 10;
+// Clips sent to the worker per request, which bounds memory on long lectures
+const CLIPS_PER_REQUEST = 16;
+// Cosine similarity at which two voices count as the same speaker. Lower than
+// the usual verification threshold, because a centroid averages many clips.
+const SAME_SPEAKER_SIMILARITY = 0.8;
+// Clusters with less speech than this are folded into the closest speaker
+const MIN_SPEAKER_SECONDS = 4;
+const REFINE_PASSES = 3;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (embeddings: Float32Array[]) => void; reject: (error: Error) => void }>();
+
+function handleMessage(event: MessageEvent<SpeakerEvent>) {
+  const message = event.data;
+  const pending = pendingRequests.get(message.id);
+  if (!pending) return;
+
+  pendingRequests.delete(message.id);
+  if (message.type === 'embeddings') {
+    pending.resolve(message.embeddings);
+  } else {
+    pending.reject(new Error(message.message));
+  }
+}
+
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/speaker.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+  }
+  return worker;
+}
+
+function send(request: SpeakerRequest, transfer: Transferable[] = []) {
+  getWorker().postMessage(request, transfer);
+}
+
+function embedClips(clips: Float32Array[]) {
+  return new Promise<Float32Array[]>((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+    send({ type: 'embed', id, clips }, clips.map((clip) => clip.buffer));
+  });
+}
+
+// Sample range embedded for each segment
+function planClips(transcript: Transcript) {
+  const total = Math.round(transcript.duration * WHISPER_SAMPLING_RATE);
+  return transcript.segments.map((segment) => {
+    const middle = (segment.start + segment.end) / 2;
+    const length = Math.min(MAX_CLIP_SECONDS, Math.max(MIN_CLIP_SECONDS, segment.end - segment.start));
+    const from = Math.max(0, Math.round((middle - length / 2) * WHISPER_SAMPLING_RATE));
+    return { from, to: Math.max(from + 1, Math.min(total, Math.round((middle + length / 2) * WHISPER_SAMPLING_RATE))) };
+  });
+}
+
+// One embedding per segment, reading the audio once from start to finish
+async function embedSegments(transcript: Transcript, stream: AudioStream, options: DiarizationOptions) {
+  const clips = planClips(transcript);
+  // Earliest sample any remaining clip needs, so the rest can be dropped
+  const keepFrom = clips.map((clip) => clip.from);
+  for (let i = keepFrom.length - 2; i >= 0; i--) {
+    keepFrom[i] = Math.min(keepFrom[i], keepFrom[i + 1]);
+  }
+
+  const buffer = createSampleBuffer();
+  const embeddings: Float32Array[] = [];
+  let batch: Float32Array[] = [];
+  let ended = false;
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    embeddings.push(...(await embedClips(batch)));
+    batch = [];
+    options.onProgress?.(embeddings.length, clips.length);
+  };
+
+  for (const [index, clip] of clips.entries()) {
+    while (!ended && buffer.end() < clip.to) {
+      const block = await stream.read();
+      if (block) {
+        buffer.append(block);
+      } else {
+        ended = true;
+      }
+    }
+
+    const to = Math.min(clip.to, buffer.end());
+    const from = Math.min(clip.from, Math.max(0, to - 1));
+    batch.push(to > from ? buffer.slice(from, to) : new Float32Array(WHISPER_SAMPLING_RATE));
+    buffer.dropBefore(keepFrom[index + 1] ?? to);
+
+    if (batch.length === CLIPS_PER_REQUEST) {
+      await flush();
+    }
+  }
+  await flush();
+  return embeddings;
+}
+
+function dot(a: Float32Array, b: Float32Array) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function normalize(vector: Float32Array) {
+  const norm = Math.sqrt(dot(vector, vector)) || 1;
+  return vector.map((value) => value / norm);
+}
+
+// Mean direction of the embeddings assigned to each cluster, weighted by speech length
+function computeCentroids(embeddings: Float32Array[], weights: number[], labels: number[], count: number) {
+  const sums = Array.from({ length: count }, () => new Float32Array(embeddings[0].length));
+  embeddings.forEach((embedding, index) => {
+    const sum = sums[labels[index]];
+    for (let i = 0; i < embedding.length; i++) {
+      sum[i] += embedding[i] * weights[index];
+    }
+  });
+  return sums.map(normalize);
+}
+
+function closestCentroid(embedding: Float32Array, centroids: Float32Array[], exclude = -1) {
+  let best = -1;
+  let bestSimilarity = -Infinity;
+  centroids.forEach((centroid, index) => {
+    if (index === exclude) return;
+    const similarity = dot(embedding, centroid);
+    if (similarity > bestSimilarity) {
+      best = index;
+      bestSimilarity = similarity;
+    }
+  });
+  return { index: best, similarity: bestSimilarity };
+}
+
+// Renumbers labels 0..n-1 with no gaps, in order of first appearance
+function compactLabels(labels: number[]) {
+  const mapping = new Map<number, number>();
+  return labels.map((label) => {
+    if (!mapping.has(label)) mapping.set(label, mapping.size);
+    return mapping.get(label) as number;
+  });
+}
+
+// Online clustering followed by merging and a few k-means passes. Linear in
+// the number of segments, unlike agglomerative clustering, so it stays quick
+// on lectures with thousands of segments.
+export function clusterSpeakers(embeddings: Float32Array[], weights: number[], speakerCount: number | null) {
+  if (embeddings.length === 0) return [];
+
+  let labels: number[] = [];
+  const sums: Float32Array[] = [];
+  embeddings.forEach((embedding, index) => {
+    const { index: closest, similarity } = closestCentroid(embedding, sums.map(normalize));
+    if (closest !== -1 && similarity >= SAME_SPEAKER_SIMILARITY) {
+      labels.push(closest);
+      embedding.forEach((value, i) => {
+        sums[closest][i] += value * weights[index];
+      });
+    } else {
+      labels.push(sums.length);
+      sums.push(embedding.map((value) => value * weights[index]));
+    }
+  });
+
+  for (let pass = 0; pass <= REFINE_PASSES; pass++) {
+    labels = compactLabels(labels);
+    let count = Math.max(...labels) + 1;
+    let centroids = computeCentroids(embeddings, weights, labels, count);
+
+    // Merge the closest pair while there are too many speakers or two sound alike
+    for (;;) {
+      let pair: [number, number] | null = null;
+      let bestSimilarity = -Infinity;
+      for (let a = 0; a < count; a++) {
+        for (let b = a + 1; b < count; b++) {
+          const similarity = dot(centroids[a], centroids[b]);
+          if (similarity > bestSimilarity) {
+            pair = [a, b];
+            bestSimilarity = similarity;
+          }
+        }
+      }
+      const tooMany = speakerCount !== null && count > speakerCount;
+      if (!pair || (!tooMany && (speakerCount !== null || bestSimilarity < SAME_SPEAKER_SIMILARITY))) break;
+
+      const [keep, drop] = pair;
+      labels = compactLabels(labels.map((label) => (label === drop ? keep : label)));
+      count -= 1;
+      centroids = computeCentroids(embeddings, weights, labels, count);
+    }
+
+    // Fold in speakers heard too briefly to be more than noise
+    const speech = new Array<number>(count).fill(0);
+    labels.forEach((label, index) => {
+      speech[label] += weights[index];
+    });
+    labels = labels.map((label, index) => {
+      if (count === 1 || speech[label] >= MIN_SPEAKER_SECONDS) return label;
+      return closestCentroid(embeddings[index], centroids, label).index;
+    });
+
+    if (pass < REFINE_PASSES) {
+      labels = compactLabels(labels);
+      centroids = computeCentroids(embeddings, weights, labels, Math.max(...labels) + 1);
+      labels = embeddings.map((embedding) => closestCentroid(embedding, centroids).index);
+    }
+  }
+  return compactLabels(labels);
+}
+
+// The transcript with a speaker on every segment and default speaker names;
+// names given on an earlier run are dropped, since the speakers may differ
+export async function diarizeTranscript(
+  transcript: Transcript,
+  stream: AudioStream,
+  options: DiarizationOptions,
+): Promise<Transcript> {
+  const source = loadModelSource();
+  send({ type: 'configure', source: { ...source, localModelPath: resolveModelPath(source.localModelPath) } });
+
+  const embeddings = await embedSegments(transcript, stream, options);
+  const weights = transcript.segments.map((segment) => Math.max(0.1, segment.end - segment.start));
+  const labels = clusterSpeakers(embeddings, weights, options.speakerCount);
+  const speakerCount = labels.length > 0 ? Math.max(...labels) + 1 : 0;
+
+  return {
+    ...transcript,
+    segments: transcript.segments.map((segment, index) => ({ ...segment, speaker: labels[index] })),
+    speakers: Array.from({ length: speakerCount }, (_, index) => `Speaker ${index + 1}`),
+  };
+}
@@ -0,0 +1,147 @@
+import { WHISPER_SAMPLING_RATE, createResampler } from '@/lib/audio';
+import { mergeWindows, type TimedText, type TranscribedWindow } from '@/lib/transcript-merge';
+import type { ModelSelection } from '@/lib/transcription-settings';
+import type { TranscribeOptions } from '@/workers/transcription-protocol';
+import {
+  JUMP_SAMPLES,
+  WINDOW_SAMPLES,
+  combineWindows,
+  createSampleBuffer,
+  hasWindowAt,
+  transcribeWindow,
+  type WindowedTranscriptionResult,
+} from '@/lib/windowed-transcription';
+
+// Transcribes microphone audio while it is still being recorded. Each full
+// window is transcribed once, at the offsets planWindows would choose for the
+// finished recording, so the merged result matches the batch path. Audio past
+// the last full window is transcribed provisionally whenever the worker is idle.
+
+export interface LiveCaptions {
+  // Text later windows can no longer change
+  stable: string;
+  // Text that will be replaced once more audio has been heard
+  provisional: string;
+}
+
+// New audio needed before the tail is transcribed again
+const PROVISIONAL_INTERVAL_S = 2;
+
+const PROVISIONAL_SAMPLES = PROVISIONAL_INTERVAL_S * WHISPER_SAMPLING_RATE;
+
+function joinText(segments: TimedText[]) {
+  return segments.map((segment) => segment.text).join(' ');
+}
+
+export function createLiveTranscription(
+  model: ModelSelection,
+  options: TranscribeOptions,
+  onCaptions: (captions: LiveCaptions) => void,
+) {
+  const buffer = createSampleBuffer();
+  let nextOffset = 0;
+  let lastProvisionalAt = 0;
+  let resample: ((input: Float32Array) => Float32Array) | null = null;
+
+  const windows: TranscribedWindow[] = [];
+  const languages: (string | null)[] = [];
+  let provisional: TranscribedWindow | null = null;
+  let running: Promise<void> | null = null;
+  let failure: Error | null = null;
+  let finished = false;
+  let cancelled = false;
+
+  // Captions go ahead of queued batch windows so they keep up while a queue runs
+  const transcribeRange = (from: number, to: number) => transcribeWindow(buffer, from, to, model, options, undefined, true);
+
+  function finalize(window: TranscribedWindow, language: string | null, offset: number) {
+    windows.push(window);
+    languages.push(language);
+    nextOffset = offset + JUMP_SAMPLES;
+    buffer.dropBefore(nextOffset);
+    provisional = null;
+  }
+
+  function publish() {
+    if (cancelled) return;
+    const segments = mergeWindows(provisional ? [...windows, provisional] : windows);
+    // The next window starts here, so earlier words are past any future seam
+    const stableEnd = nextOffset / WHISPER_SAMPLING_RATE;
+    onCaptions({
+      stable: joinText(segments.filter((segment) => segment.end <= stableEnd)),
+      provisional: joinText(segments.filter((segment) => segment.end > stableEnd)),
+    });
+  }
+
+  function pump() {
+    if (running || failure || cancelled) return;
+
+    const total = buffer.end();
+    let job: Promise<void> | null = null;
+
+    if (total >= nextOffset + WINDOW_SAMPLES) {
+      const offset = nextOffset;
+      job = transcribeRange(offset, offset + WINDOW_SAMPLES).then(({ window, language }) => {
+        finalize(window, language, offset);
+      });
+    } else if (!finished && total > nextOffset && total - lastProvisionalAt >= PROVISIONAL_SAMPLES) {
+      lastProvisionalAt = total;
+      job = transcribeRange(nextOffset, total).then(({ window }) => {
+        provisional = window;
+      });
+    }
+    if (!job) return;
+
+    running = job
+      .then(publish, (error) => {
+        failure = error instanceof Error ? error : new Error(String(error));
+      })
+      .finally(() => {
+        running = null;
+        pump();
+      });
+  }
+
+  function push(samples: Float32Array, sampleRate: number) {
+    if (finished || cancelled) return;
+    if (!resample) {
+      resample = createResampler(sampleRate, WHISPER_SAMPLING_RATE);
+    }
+    buffer.append(resample(samples));
+    pump();
+  }
+
+  // Transcribes whatever the live windows have not covered yet and merges
+  // everything exactly like a batch transcription of the whole recording
+  async function finish(): Promise<WindowedTranscriptionResult> {
+    finished = true;
+    while (running) {
+      await running;
+    }
+    if (failure) throw failure;
+
+    const total = buffer.end();
+    if (total === 0) {
+      throw new Error('No live audio was captured');
+    }
+    while (hasWindowAt(nextOffset, total)) {
+      const offset = nextOffset;
+      const { window, language } = await transcribeRange(offset, Math.min(total, offset + WINDOW_SAMPLES));
+      finalize(window, language, offset);
+    }
+
+    return {
+      output: combineWindows(windows, languages, options),
+      duration: total / WHISPER_SAMPLING_RATE,
+    };
+  }
+
+  // Stops scheduling work; a window already in the worker still completes
+  function cancel() {
+    cancelled = true;
+  }
+
+  return { push, finish, cancel };
+}
+
+export type LiveTranscription = ReturnType<typeof createLiveTranscription>;
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { openEncodedAudioTrack, type EncodedAudioFrame, type EncodedAudioTrack } from '@/lib/media-demux';
+
+function ascii(text: string) {
+  return [...text].map((char) => char.charCodeAt(0));
+}
+
+function concat(...parts: (Uint8Array | number[])[]) {
+  return new Uint8Array(parts.flatMap((part) => [...part]));
+}
+
+function uint(value: number, bytes: number) {
+  return Array.from({ length: bytes }, (_, index) => Math.floor(value / 256 ** (bytes - 1 - index)) % 256);
+}
+
+async function readAll(track: EncodedAudioTrack) {
+  const frames: EncodedAudioFrame[] = [];
+  for (let next = await track.read(); next; next = await track.read()) frames.push(...next);
+  return frames.map((frame) => ({ data: [...frame.data], timestamp: frame.timestamp }));
+}
+
+// ISO BMFF boxes
+function box(type: string, ...payload: (Uint8Array | number[])[]) {
+  const body = concat(...payload);
+  return concat(uint(body.length + 8, 4), ascii(type), body);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: (Uint8Array | number[])[]) {
+  return box(type, [version, ...uint(flags, 3)], ...payload);
+}
+
+// The movie box of an MP4 with a video track and an AAC track, the audio
+// track's sample table boxes given
+function movie(audioTable: Uint8Array[], mvex: Uint8Array[] = []) {
+  const track = (id: number, handler: string, table: Uint8Array[]) => box(
+    'trak',
+    fullBox('tkhd', 0, 3, uint(0, 8), uint(id, 4), uint(0, 68)),
+    box(
+      'mdia',
+      fullBox('mdhd', 0, 0, uint(0, 8), uint(44100, 4), uint(0, 8)),
+      fullBox('hdlr', 0, 0, uint(0, 4), ascii(handler), uint(0, 13)),
+      box('minf', box('stbl', ...table)),
+    ),
+  );
+  const esds = fullBox(
+    'esds', 0, 0,
+    [0x03, 22, 0, 1, 0],
+    [0x04, 17, 0x40, 0x15, ...uint(0, 11)],
+    [0x05, 2, 0x12, 0x10],
+  );
+  const mp4a = box('mp4a', uint(0, 6), uint(1, 2), uint(0, 8), uint(2, 2), uint(16, 2), uint(0, 4), uint(44100 * 65536, 4), esds);
+  return box(
+    'moov',
+    track(1, 'vide', []),
+    track(2, 'soun', [fullBox('stsd', 0, 0, uint(1, 4), mp4a), ...audioTable]),
+    ...(mvex.length > 0 ? [box('mvex', ...mvex)] : []),
+  );
+}
+
+// Matroska elements
+function ebml(id: number, ...payload: (Uint8Array | number[])[]) {
+  const body = concat(...payload);
+  const idBytes = uint(id, Math.ceil(Math.log2(id + 1) / 8));
+  return concat(idBytes, body.length < 127 ? [0x80 | body.length] : uint(0x4000 | body.length, 2), body);
+}
+
+// An element left open to the end of the file, as recorders write them
+function openEbml(id: number, ...payload: (Uint8Array | number[])[]) {
+  return concat(uint(id, 4), [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff], ...payload);
+}
+
+function simpleBlock(track: number, timecode: number, data: number[]) {
+  return ebml(0xa3, [0x80 | track], uint(timecode, 2), [0x80], data);
+}
+
+// Ogg pages; the last packet of an open page goes on in the next one
+function oggPage(serial: number, flags: number, granule: number, packets: number[][], open = false) {
+  const lacing = packets.flatMap((packet, index) => {
+    const values = [...Array(Math.floor(packet.length / 255)).fill(255), packet.length % 255];
+    return open && index === packets.length - 1 ? values.slice(0, -1) : values;
+  });
+  const granuleBytes = uint(granule, 8).reverse();
+  const serialBytes = uint(serial, 4).reverse();
+  return concat(ascii('OggS'), [0, flags], granuleBytes, serialBytes, uint(0, 8), [lacing.length], lacing, ...packets);
+}
+
+const OPUS_HEAD = [...ascii('OpusHead'), 1, 2, 0x38, 0x01, ...uint(0x80bb0000, 4), 0, 0, 0];
+
+describe('openEncodedAudioTrack', () => {
+  it('reads the audio samples of an MP4 through its sample table', async () => {
+    const ftyp = box('ftyp', ascii('isom'), uint(0, 4));
+    const mdat = box('mdat', [1, 2, 3, 4, 5, 6]);
+    const dataOffset = ftyp.length + 8;
+    const table = [
+      fullBox('stts', 0, 0, uint(1, 4), uint(3, 4), uint(1024, 4)),
+      fullBox('stsc', 0, 0, uint(2, 4), uint(1, 4), uint(2, 4), uint(1, 4), uint(2, 4), uint(1, 4), uint(1, 4)),
+      fullBox('stsz', 0, 0, uint(0, 4), uint(3, 4), uint(3, 4), uint(2, 4), uint(1, 4)),
+      fullBox('stco', 0, 0, uint(2, 4), uint(dataOffset, 4), uint(dataOffset + 5, 4)),
+    ];
+    const track = await openEncodedAudioTrack(new Blob([ftyp, mdat, movie(table)]), 'M4A');
+
+    expect(track.config).toEqual({ codec: 'mp4a.40.2', sampleRate: 44100, numberOfChannels: 2, description: new Uint8Array([0x12, 0x10]) });
+    expect(await readAll(track)).toEqual([
+      { data: [1, 2, 3], timestamp: 0 },
+      { data: [4, 5], timestamp: 23220 },
+      { data: [6], timestamp: 46440 },
+    ]);
+  });
+
+  it('reads the audio of a fragmented MP4', async () => {
+    const moov = movie([], [fullBox('trex', 0, 0, uint(2, 4), uint(1, 4), uint(1024, 4), uint(0, 8))]);
+    const fragment = (data: number[][]) => {
+      const traf = (offset: number) => box(
+        'traf',
+        fullBox('tfhd', 0, 0x020000, uint(2, 4)),
+        fullBox('trun', 0, 0x201, uint(data.length, 4), uint(offset, 4), ...data.map((sample) => uint(sample.length, 4))),
+      );
+      const size = box('moof', fullBox('mfhd', 0, 0, uint(1, 4)), traf(0)).length;
+      return concat(box('moof', fullBox('mfhd', 0, 0, uint(1, 4)), traf(size + 8)), box('mdat', data.flat()));
+    };
+    const file = new Blob([box('ftyp', ascii('iso6'), uint(0, 4)), moov, fragment([[1, 2], [3]]), fragment([[4, 5, 6]])]);
+
+    expect((await readAll(await openEncodedAudioTrack(file, 'MP4'))).map((frame) => frame.data)).toEqual([[1, 2], [3], [4, 5, 6]]);
+  });
+
+  it('reads the audio blocks of a WebM recording, skipping other tracks', async () => {
+    const trackEntry = (number: number, type: number, codec: string, ...more: Uint8Array[]) => ebml(
+      0xae, ebml(0xd7, [number]), ebml(0x83, [type]), ebml(0x86, ascii(codec)), ...more,
+    );
+    const file = new Blob([
+      ebml(0x1a45dfa3, ebml(0x4282, ascii('webm'))),
+      openEbml(
+        0x18538067,
+        ebml(0x1549a966, ebml(0x2ad7b1, uint(1_000_000, 3))),
+        ebml(
+          0x1654ae6b,
+          trackEntry(1, 1, 'V_VP8'),
+          trackEntry(2, 2, 'A_OPUS', ebml(0x63a2, OPUS_HEAD), ebml(0xe1, ebml(0x9f, [2]))),
+        ),
+        openEbml(
+          0x1f43b675,
+          ebml(0xe7, [100]),
+          simpleBlock(1, 0, [9, 9, 9]),
+          simpleBlock(2, 0, [1, 2]),
+          // Two frames in one block, Xiph laced
+          ebml(0xa0, ebml(0xa1, [0x82], uint(20, 2), [0x02], [1, 1], [3], [4, 5])),
+        ),
+      ),
+    ]);
+    const track = await openEncodedAudioTrack(file, 'WebM');
+
+    expect(track.config).toMatchObject({ codec: 'opus', sampleRate: 48000, numberOfChannels: 2 });
+    expect(await readAll(track)).toEqual([
+      { data: [1, 2], timestamp: 100_000 },
+      { data: [3], timestamp: 120_000 },
+      { data: [4, 5], timestamp: 120_000 },
+    ]);
+  });
+
+  it('reads the packets of an Ogg Opus stream, joining those split across pages', async () => {
+    const long = Array.from({ length: 300 }, (_, index) => index % 256);
+    const file = new Blob([
+      oggPage(7, 0x02, 0, [[0x80, ...ascii('theora')]]),
+      oggPage(1, 0x02, 0, [OPUS_HEAD]),
+      oggPage(1, 0, 0, [ascii('OpusTags')]),
+      oggPage(7, 0, 0, [[9, 9]]),
+      oggPage(1, 0, 960, [[1, 2], long.slice(0, 255)], true),
+      oggPage(1, 0x01, 1920, [long.slice(255)]),
+    ]);
+    const track = await openEncodedAudioTrack(file, 'OGG');
+
+    expect(track.config).toMatchObject({ codec: 'opus', sampleRate: 48000, numberOfChannels: 2 });
+    expect(await readAll(track)).toEqual([
+      { data: [1, 2], timestamp: 0 },
+      { data: long, timestamp: 20_000 },
+    ]);
+  });
+
+  it('returns null for a container without an audio track it can read', async () => {
+    const file = new Blob([box('ftyp', ascii('isom'), uint(0, 4)), box('moov', box('mvhd', uint(0, 100)))]);
+    expect(await openEncodedAudioTrack(file, 'MP4')).toBeNull();
+    expect(await openEncodedAudioTrack(file, 'WAV')).toBeNull();
+  });
+});
@@ -0,0 +1,835 @@
+// Pulls the encoded audio frames out of MP4, MOV, Matroska, WebM and Ogg
+// files a part at a time, for a WebCodecs AudioDecoder. Only the audio track's
+// frames are read, so a long lecture capture is never held in memory, and the
+// decoder keeps its state from frame to frame rather than starting afresh.
+
+export interface EncodedAudioFrame {
+  data: Uint8Array;
+  // Microseconds from the start of the track
+  timestamp: number;
+}
+
+export interface EncodedAudioTrack {
+  config: AudioDecoderConfig;
+  // Next frames in decoding order, or null once the track is exhausted
+  read(): Promise<EncodedAudioFrame[] | null>;
+}
+
+// Encoded bytes gathered per read
+const READ_BYTES = 1024 * 1024;
+
+function readAscii(bytes: Uint8Array, offset: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function concatBytes(parts: Uint8Array[]) {
+  const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    joined.set(part, offset);
+    offset += part.length;
+  });
+  return joined;
+}
+
+async function readBytes(file: Blob, start: number, end: number) {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+// AAC profile from an AudioSpecificConfig, as used in the codec string
+function aacCodec(config: Uint8Array | null) {
+  if (!config || config.length === 0) return 'mp4a.40.2';
+  const objectType = config[0] >> 3;
+  return `mp4a.40.${objectType === 31 ? 32 + (((config[0] & 0x07) << 3) | (config[1] >> 5)) : objectType}`;
+}
+
+// ---------------------------------------------------------------------------
+// ISO BMFF: MP4, M4A and MOV, plain or fragmented as Safari records them
+
+interface Box {
+  type: string;
+  // Offsets of the box and of its payload in the bytes it was found in
+  start: number;
+  payload: number;
+  end: number;
+}
+
+// The boxes directly inside bytes[from, to)
+function listBoxes(bytes: Uint8Array, from = 0, to = bytes.length): Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Box[] = [];
+  let offset = from;
+  while (offset + 8 <= to) {
+    let size = view.getUint32(offset);
+    let payload = offset + 8;
+    if (size === 1 && offset + 16 <= to) {
+      size = Number(view.getBigUint64(offset + 8));
+      payload += 8;
+    } else if (size === 0) {
+      size = to - offset;
+    }
+    if (size < payload - offset) break;
+    boxes.push({ type: readAscii(bytes, offset + 4, 4), start: offset, payload, end: Math.min(to, offset + size) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(bytes: Uint8Array, parent: Box | null, path: string[]): Box | null {
+  let box = parent;
+  for (const type of path) {
+    box = listBoxes(bytes, box?.payload ?? 0, box?.end ?? bytes.length).find((child) => child.type === type) ?? null;
+    if (!box) return null;
+  }
+  return box;
+}
+
+// Length of an MPEG-4 descriptor, stored 7 bits per byte
+function readDescriptorLength(bytes: Uint8Array, offset: number) {
+  let length = 0;
+  let read = 0;
+  do {
+    length = (length << 7) | (bytes[offset + read] & 0x7f);
+  } while (bytes[offset + read++] & 0x80 && read < 4);
+  return { length, read };
+}
+
+// Object type and decoder config of an esds box's ES descriptor
+function parseEsds(bytes: Uint8Array, box: Box) {
+  let offset = box.payload + 4;
+  let objectType: number | null = null;
+  while (offset < box.end) {
+    const tag = bytes[offset];
+    const { length, read } = readDescriptorLength(bytes, offset + 1);
+    const body = offset + 1 + read;
+    if (tag === 0x03) {
+      const flags = bytes[body + 2];
+      offset = body + 3 + (flags & 0x80 ? 2 : 0);
+      if (flags & 0x40) offset += 1 + bytes[offset];
+      if (flags & 0x20) offset += 2;
+    } else if (tag === 0x04) {
+      objectType = bytes[body];
+      offset = body + 13;
+    } else if (tag === 0x05) {
+      return { objectType, config: bytes.slice(body, body + length) };
+    } else {
+      offset = body + length;
+    }
+  }
+  return { objectType, config: null };
+}
+
+// An Opus ID header, as WebCodecs takes it, from an MP4 dOps box
+function opusHeadFromDops(bytes: Uint8Array, box: Box) {
+  const source = new DataView(bytes.buffer, bytes.byteOffset + box.payload, box.end - box.payload);
+  const mapping = bytes.subarray(box.payload + 11, box.end);
+  const head = new Uint8Array(19 + mapping.length);
+  const view = new DataView(head.buffer);
+  head.set([...'OpusHead'].map((char) => char.charCodeAt(0)));
+  head[8] = 1;
+  head[9] = source.getUint8(1);
+  view.setUint16(10, source.getUint16(2), true);
+  view.setUint32(12, source.getUint32(4), true);
+  view.setInt16(16, source.getInt16(8), true);
+  head[18] = source.getUint8(10);
+  head.set(mapping, 19);
+  return head;
+}
+
+function parseAudioSampleEntry(bytes: Uint8Array, entry: Box): AudioDecoderConfig | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint16(entry.payload + 8);
+  // Version 2 moves the rate and channel count past the fixed fields
+  const numberOfChannels = version === 2 ? view.getUint32(entry.payload + 40) : view.getUint16(entry.payload + 16);
+  const sampleRate = version === 2 ? Math.round(view.getFloat64(entry.payload + 32)) : view.getUint32(entry.payload + 24) >>> 16;
+  // QuickTime sound descriptions grow with their version
+  const children = entry.payload + 28 + (version === 1 ? 16 : version === 2 ? 36 : 0);
+  const child = (type: string) => {
+    const boxes = listBoxes(bytes, children, entry.end);
+    // MOV keeps the codec's box inside a 'wave' box
+    const wave = boxes.find((box) => box.type === 'wave');
+    return boxes.find((box) => box.type === type) ?? (wave ? findBox(bytes, wave, [type]) : null);
+  };
+
+  switch (entry.type) {
+    case 'mp4a': {
+      const esds = child('esds');
+      const { objectType, config } = esds ? parseEsds(bytes, esds) : { objectType: 0x40, config: null };
+      if (objectType === 0x69 || objectType === 0x6b) return { codec: 'mp3', sampleRate, numberOfChannels };
+      return { codec: aacCodec(config), sampleRate, numberOfChannels, ...(config && { description: config }) };
+    }
+    case 'Opus': {
+      const dops = child('dOps');
+      return dops ? { codec: 'opus', sampleRate: 48000, numberOfChannels, description: opusHeadFromDops(bytes, dops) } : null;
+    }
+    case 'fLaC': {
+      const dfla = child('dfLa');
+      if (!dfla) return null;
+      const description = concatBytes([new Uint8Array([0x66, 0x4c, 0x61, 0x43]), bytes.subarray(dfla.payload + 4, dfla.end)]);
+      return { codec: 'flac', sampleRate, numberOfChannels, description };
+    }
+    case '.mp3':
+      return { codec: 'mp3', sampleRate, numberOfChannels };
+    default:
+      return null;
+  }
+}
+
+interface SampleRun {
+  offset: number;
+  sizes: number[];
+  durations: number[];
+}
+
+// Sample positions of a track from its sample table, one run per chunk
+function readSampleTable(bytes: Uint8Array, stbl: Box): SampleRun[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const stsz = findBox(bytes, stbl, ['stsz']);
+  const stsc = findBox(bytes, stbl, ['stsc']);
+  const stco = findBox(bytes, stbl, ['stco']) ?? findBox(bytes, stbl, ['co64']);
+  const stts = findBox(bytes, stbl, ['stts']);
+  if (!stsz || !stsc || !stco) return [];
+
+  const fixedSize = view.getUint32(stsz.payload + 4);
+  const sampleCount = view.getUint32(stsz.payload + 8);
+  const sizeOf = (index: number) => fixedSize || view.getUint32(stsz.payload + 12 + index * 4);
+
+  const durations: number[] = [];
+  if (stts) {
+    const entries = view.getUint32(stts.payload + 4);
+    for (let i = 0; i < entries && durations.length < sampleCount; i++) {
+      const count = view.getUint32(stts.payload + 8 + i * 8);
+      const delta = view.getUint32(stts.payload + 12 + i * 8);
+      for (let j = 0; j < count && durations.length < sampleCount; j++) durations.push(delta);
+    }
+  }
+
+  const is64 = stco.type === 'co64';
+  const chunkCount = view.getUint32(stco.payload + 4);
+  const chunkOffset = (index: number) => (is64
+    ? Number(view.getBigUint64(stco.payload + 8 + index * 8))
+    : view.getUint32(stco.payload + 8 + index * 4));
+  const stscEntries = view.getUint32(stsc.payload + 4);
+
+  const runs: SampleRun[] = [];
+  let sample = 0;
+  for (let entry = 0; entry < stscEntries; entry++) {
+    const firstChunk = view.getUint32(stsc.payload + 8 + entry * 12) - 1;
+    const samplesPerChunk = view.getUint32(stsc.payload + 12 + entry * 12);
+    const lastChunk = entry + 1 < stscEntries ? view.getUint32(stsc.payload + 8 + (entry + 1) * 12) - 1 : chunkCount;
+    for (let chunk = firstChunk; chunk < lastChunk && sample < sampleCount; chunk++) {
+      const count = Math.min(samplesPerChunk, sampleCount - sample);
+      runs.push({
+        offset: chunkOffset(chunk),
+        sizes: Array.from({ length: count }, (_, index) => sizeOf(sample + index)),
+        durations: Array.from({ length: count }, (_, index) => durations[sample + index] ?? 0),
+      });
+      sample += count;
+    }
+  }
+  return runs;
+}
+
+interface TrackDefaults {
+  duration: number;
+  size: number;
+}
+
+// Sample positions of the track in one movie fragment
+function readFragment(bytes: Uint8Array, moofOffset: number, trackId: number, defaults: TrackDefaults): SampleRun[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const runs: SampleRun[] = [];
+  listBoxes(bytes).filter((box) => box.type === 'traf').forEach((traf) => {
+    const tfhd = findBox(bytes, traf, ['tfhd']);
+    if (!tfhd || view.getUint32(tfhd.payload + 4) !== trackId) return;
+
+    const tfhdFlags = view.getUint32(tfhd.payload) & 0xffffff;
+    let field = tfhd.payload + 8;
+    let base = moofOffset;
+    if (tfhdFlags & 0x01) {
+      base = Number(view.getBigUint64(field));
+      field += 8;
+    }
+    if (tfhdFlags & 0x02) field += 4;
+    let defaultDuration = defaults.duration;
+    let defaultSize = defaults.size;
+    if (tfhdFlags & 0x08) {
+      defaultDuration = view.getUint32(field);
+      field += 4;
+    }
+    if (tfhdFlags & 0x10) defaultSize = view.getUint32(field);
+
+    let dataEnd = base;
+    listBoxes(bytes, traf.payload, traf.end).filter((box) => box.type === 'trun').forEach((trun) => {
+      const flags = view.getUint32(trun.payload) & 0xffffff;
+      const count = view.getUint32(trun.payload + 4);
+      let offset = trun.payload + 8;
+      // Without a data offset a run follows the one before
+      let dataOffset = dataEnd;
+      if (flags & 0x01) {
+        dataOffset = base + view.getInt32(offset);
+        offset += 4;
+      }
+      if (flags & 0x04) offset += 4;
+
+      const run: SampleRun = { offset: dataOffset, sizes: [], durations: [] };
+      for (let i = 0; i < count; i++) {
+        let duration = defaultDuration;
+        let size = defaultSize;
+        if (flags & 0x100) {
+          duration = view.getUint32(offset);
+          offset += 4;
+        }
+        if (flags & 0x200) {
+          size = view.getUint32(offset);
+          offset += 4;
+        }
+        if (flags & 0x400) offset += 4;
+        if (flags & 0x800) offset += 4;
+        run.sizes.push(size);
+        run.durations.push(duration);
+      }
+      dataEnd = dataOffset + run.sizes.reduce((sum, size) => sum + size, 0);
+      runs.push(run);
+    });
+  });
+  return runs;
+}
+
+// The header of the top-level box at offset, or null at the end of the file
+async function readBoxHeader(file: Blob, offset: number) {
+  if (offset + 8 > file.size) return null;
+  const header = await readBytes(file, offset, offset + 16);
+  const view = new DataView(header.buffer);
+  let size = view.getUint32(0);
+  if (size === 1 && header.length >= 16) size = Number(view.getBigUint64(8));
+  if (size === 0) size = file.size - offset;
+  return size >= 8 ? { type: readAscii(header, 4, 4), size } : null;
+}
+
+async function openIsoTrack(file: Blob): Promise<EncodedAudioTrack | null> {
+  // Find the movie box, which files not written for streaming keep at the end
+  let offset = 0;
+  let moov: Uint8Array | null = null;
+  while (!moov) {
+    const header = await readBoxHeader(file, offset);
+    if (!header) return null;
+    if (header.type === 'moov') moov = await readBytes(file, offset, offset + header.size);
+    offset += header.size;
+  }
+  // Fragments, if any, follow the movie box
+  let nextBox = offset;
+
+  const root: Box = { type: 'moov', start: 0, payload: 8, end: moov.length };
+  const movie = moov;
+  const trak = listBoxes(movie, root.payload, root.end)
+    .filter((box) => box.type === 'trak')
+    .find((box) => {
+      const hdlr = findBox(movie, box, ['mdia', 'hdlr']);
+      return hdlr && readAscii(movie, hdlr.payload + 8, 4) === 'soun';
+    });
+  if (!trak) return null;
+
+  const view = new DataView(movie.buffer);
+  const tkhd = findBox(movie, trak, ['tkhd']);
+  const mdhd = findBox(movie, trak, ['mdia', 'mdhd']);
+  const stbl = findBox(movie, trak, ['mdia', 'minf', 'stbl']);
+  const stsd = stbl && findBox(movie, stbl, ['stsd']);
+  if (!tkhd || !mdhd || !stbl || !stsd) return null;
+
+  const [entry] = listBoxes(movie, stsd.payload + 8, stsd.end);
+  const config = entry && parseAudioSampleEntry(movie, entry);
+  if (!config) return null;
+
+  const trackId = view.getUint32(tkhd.payload + (movie[tkhd.payload] === 1 ? 20 : 12));
+  const timescale = view.getUint32(mdhd.payload + (movie[mdhd.payload] === 1 ? 20 : 12));
+  const mvex = findBox(movie, root, ['mvex']);
+  const trex = (mvex ? listBoxes(movie, mvex.payload, mvex.end) : [])
+    .find((box) => box.type === 'trex' && view.getUint32(box.payload + 4) === trackId);
+  const defaults: TrackDefaults = {
+    duration: trex ? view.getUint32(trex.payload + 12) : 0,
+    size: trex ? view.getUint32(trex.payload + 16) : 0,
+  };
+
+  // Runs to read, the current one read up to `sample`
+  const runs = readSampleTable(movie, stbl);
+  let current = 0;
+  let sample = 0;
+  let sampleOffset = 0;
+  let time = 0;
+
+  // The next run, from the sample table and then from each movie fragment
+  const nextRun = async () => {
+    while (current >= runs.length) {
+      const header = await readBoxHeader(file, nextBox);
+      if (!header) return null;
+      if (header.type === 'moof') {
+        runs.length = 0;
+        current = 0;
+        const moof = await readBytes(file, nextBox, nextBox + header.size);
+        runs.push(...readFragment(moof.subarray(8), nextBox, trackId, defaults));
+      }
+      nextBox += header.size;
+    }
+    return runs[current];
+  };
+
+  return {
+    config,
+    async read() {
+      const frames: EncodedAudioFrame[] = [];
+      let bytes = 0;
+      while (bytes < READ_BYTES) {
+        const run = await nextRun();
+        if (!run) break;
+
+        // Samples of a run are stored back to back, so they are read at once
+        let count = 0;
+        let length = 0;
+        while (sample + count < run.sizes.length && (length === 0 || bytes + length < READ_BYTES)) {
+          length += run.sizes[sample + count];
+          count++;
+        }
+        const start = run.offset + sampleOffset;
+        const data = await readBytes(file, start, start + length);
+        let offset = 0;
+        for (let i = sample; i < sample + count; i++) {
+          frames.push({ data: data.subarray(offset, offset + run.sizes[i]), timestamp: Math.round((time / timescale) * 1_000_000) });
+          offset += run.sizes[i];
+          time += run.durations[i];
+        }
+        bytes += length;
+        sample += count;
+        sampleOffset += length;
+        if (sample >= run.sizes.length) {
+          current++;
+          sample = 0;
+          sampleOffset = 0;
+        }
+      }
+      return frames.length > 0 ? frames : null;
+    },
+  };
+}
+
+// Reads a file front to back through a window of buffered bytes
+function createFileReader(file: Blob, start = 0) {
+  let buffer = new Uint8Array(0);
+  let bufferStart = start;
+  let position = start;
+
+  return {
+    get position() {
+      return position;
+    },
+    // Buffers the next `length` bytes, or up to the end of the file if they
+    // aren't all there, and tells which
+    async ensure(length: number) {
+      if (position + length <= bufferStart + buffer.length) return true;
+      buffer = await readBytes(file, position, Math.min(file.size, position + Math.max(length, READ_BYTES)));
+      bufferStart = position;
+      return position + length <= file.size;
+    },
+    // The next bytes, which must have been ensured
+    peek(length: number, at = 0) {
+      return buffer.subarray(position - bufferStart + at, position - bufferStart + at + length);
+    },
+    skip(length: number) {
+      position += length;
+    },
+  };
+}
+
+type FileReader = ReturnType<typeof createFileReader>;
+
+// ---------------------------------------------------------------------------
+// Matroska and WebM
+
+const EBML_ID = {
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackType: 0x83,
+  codecId: 0x86,
+  codecPrivate: 0x63a2,
+  audio: 0xe1,
+  samplingFrequency: 0xb5,
+  channels: 0x9f,
+  cluster: 0x1f43b675,
+  timecode: 0xe7,
+  simpleBlock: 0xa3,
+  blockGroup: 0xa0,
+  block: 0xa1,
+};
+
+// Elements walked into rather than over, so their size need not be known
+const EBML_CONTAINERS = new Set([EBML_ID.segment, EBML_ID.cluster, EBML_ID.blockGroup]);
+
+// A variable-length integer; IDs keep their length marker and sizes drop it
+function readVint(bytes: Uint8Array, offset: number, keepMarker = false) {
+  const first = bytes[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || offset + length > bytes.length) return null;
+  let value = keepMarker ? first : first & (0xff >> length);
+  let unknown = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    unknown = unknown && bytes[offset + i] === 0xff;
+  }
+  return { value, length, unknown };
+}
+
+function readUint(bytes: Uint8Array) {
+  return bytes.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+interface EbmlElement {
+  id: number;
+  offset: number;
+  size: number | null;
+  end: number;
+}
+
+function listElements(bytes: Uint8Array, from = 0, to = bytes.length): EbmlElement[] {
+  const elements: EbmlElement[] = [];
+  let offset = from;
+  while (offset < to) {
+    const id = readVint(bytes, offset, true);
+    const size = id && readVint(bytes, offset + id.length);
+    if (!id || !size) break;
+    const payload = offset + id.length + size.length;
+    const end = size.unknown ? to : Math.min(to, payload + size.value);
+    elements.push({ id: id.value, offset: payload, size: end - payload, end });
+    offset = end;
+  }
+  return elements;
+}
+
+function findElement(bytes: Uint8Array, parent: EbmlElement, id: number) {
+  return listElements(bytes, parent.offset, parent.end).find((element) => element.id === id) ?? null;
+}
+
+function matroskaConfig(codecId: string, sampleRate: number, numberOfChannels: number, codecPrivate: Uint8Array | null): AudioDecoderConfig | null {
+  const description = codecPrivate ? { description: codecPrivate } : {};
+  if (codecId === 'A_OPUS') return { codec: 'opus', sampleRate: 48000, numberOfChannels, ...description };
+  if (codecId === 'A_VORBIS' && codecPrivate) return { codec: 'vorbis', sampleRate, numberOfChannels, ...description };
+  if (codecId.startsWith('A_AAC')) return { codec: aacCodec(codecPrivate), sampleRate, numberOfChannels, ...description };
+  if (codecId === 'A_FLAC' && codecPrivate) return { codec: 'flac', sampleRate, numberOfChannels, ...description };
+  if (codecId === 'A_MPEG/L3') return { codec: 'mp3', sampleRate, numberOfChannels };
+  return null;
+}
+
+// The first audio track of a Tracks element
+function parseMatroskaTracks(bytes: Uint8Array, tracks: EbmlElement) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (const entry of listElements(bytes, tracks.offset, tracks.end)) {
+    if (entry.id !== EBML_ID.trackEntry) continue;
+    const field = (id: number) => findElement(bytes, entry, id);
+    const value = (element: EbmlElement | null) => (element ? bytes.subarray(element.offset, element.end) : null);
+    if (readUint(value(field(EBML_ID.trackType)) ?? new Uint8Array()) !== 2) continue;
+
+    const audio = field(EBML_ID.audio);
+    const frequency = audio && findElement(bytes, audio, EBML_ID.samplingFrequency);
+    const channels = audio && findElement(bytes, audio, EBML_ID.channels);
+    const sampleRate = !frequency ? 8000 : frequency.size === 4
+      ? view.getFloat32(frequency.offset)
+      : view.getFloat64(frequency.offset);
+    const codecId = readAscii(value(field(EBML_ID.codecId)) ?? new Uint8Array(), 0, 32).replace(/\0+$/, '');
+    const codecPrivate = value(field(EBML_ID.codecPrivate));
+    const config = matroskaConfig(
+      codecId,
+      Math.round(sampleRate),
+      channels ? readUint(value(channels)) : 1,
+      codecPrivate && codecPrivate.slice(),
+    );
+    return config && { config, number: readUint(value(field(EBML_ID.trackNumber)) ?? new Uint8Array()) };
+  }
+  return null;
+}
+
+// The frames of a Block or SimpleBlock, unpacking any lacing
+function parseMatroskaBlock(bytes: Uint8Array) {
+  const track = readVint(bytes, 0);
+  if (!track) return null;
+  let offset = track.length;
+  const timecode = new DataView(bytes.buffer, bytes.byteOffset + offset, 2).getInt16(0);
+  const lacing = (bytes[offset + 2] >> 1) & 0x03;
+  offset += 3;
+  if (lacing === 0) return { track: track.value, timecode, frames: [bytes.slice(offset)] };
+
+  const count = bytes[offset++] + 1;
+  const sizes: number[] = [];
+  if (lacing === 1) {
+    for (let i = 0; i < count - 1; i++) {
+      let size = 0;
+      while (bytes[offset] === 0xff) size += bytes[offset++];
+      sizes.push(size + bytes[offset++]);
+    }
+  } else if (lacing === 3) {
+    const first = readVint(bytes, offset);
+    if (!first) return null;
+    sizes.push(first.value);
+    offset += first.length;
+    for (let i = 1; i < count - 1; i++) {
+      const difference = readVint(bytes, offset);
+      if (!difference) return null;
+      sizes.push(sizes[i - 1] + difference.value - (2 ** (7 * difference.length - 1) - 1));
+      offset += difference.length;
+    }
+  } else {
+    const size = Math.floor((bytes.length - offset) / count);
+    for (let i = 0; i < count - 1; i++) sizes.push(size);
+  }
+  sizes.push(bytes.length - offset - sizes.reduce((sum, size) => sum + size, 0));
+
+  const frames = sizes.map((size) => {
+    const frame = bytes.slice(offset, offset + size);
+    offset += size;
+    return frame;
+  });
+  return { track: track.value, timecode, frames };
+}
+
+// The next element header, reading past the ID and size
+async function readElementHeader(reader: FileReader) {
+  if (!(await reader.ensure(2))) return null;
+  await reader.ensure(12);
+  const header = reader.peek(12);
+  const id = readVint(header, 0, true);
+  const size = id && readVint(header, id.length);
+  if (!id || !size) return null;
+  reader.skip(id.length + size.length);
+  return { id: id.value, size: size.unknown ? null : size.value };
+}
+
+async function openMatroskaTrack(file: Blob): Promise<EncodedAudioTrack | null> {
+  const reader = createFileReader(file);
+  let timecodeScale = 1_000_000;
+  let track: ReturnType<typeof parseMatroskaTracks> = null;
+  let clusterTime = 0;
+
+  // Walks the file element by element, returning the frames of the next audio block
+  const nextElement = async (): Promise<EncodedAudioFrame[] | null> => {
+    for (;;) {
+      const header = await readElementHeader(reader);
+      if (!header) return null;
+      if (EBML_CONTAINERS.has(header.id)) continue;
+      if (header.size === null) return null;
+
+      // Skip what isn't needed, including the blocks of other tracks, unread
+      const isBlock = header.id === EBML_ID.simpleBlock || header.id === EBML_ID.block;
+      let wanted = header.id === EBML_ID.info || header.id === EBML_ID.tracks || header.id === EBML_ID.timecode;
+      if (isBlock && track) {
+        await reader.ensure(Math.min(8, header.size));
+        wanted = readVint(reader.peek(Math.min(8, header.size)), 0)?.value === track.number;
+      }
+      if (!wanted) {
+        reader.skip(header.size);
+        continue;
+      }
+      if (!(await reader.ensure(header.size))) return null;
+
+      const body = reader.peek(header.size);
+      reader.skip(header.size);
+      const element: EbmlElement = { id: header.id, offset: 0, size: header.size, end: header.size };
+      if (header.id === EBML_ID.info) {
+        const scale = findElement(body, element, EBML_ID.timecodeScale);
+        if (scale) timecodeScale = readUint(body.subarray(scale.offset, scale.end));
+      } else if (header.id === EBML_ID.tracks) {
+        track = parseMatroskaTracks(body, element);
+        if (!track) return null;
+        return [];
+      } else if (header.id === EBML_ID.timecode) {
+        clusterTime = readUint(body);
+      } else if (isBlock) {
+        const block = parseMatroskaBlock(body);
+        if (block) {
+          // Laced frames share their block's time
+          const timestamp = Math.round(((clusterTime + block.timecode) * timecodeScale) / 1000);
+          return block.frames.map((data) => ({ data, timestamp }));
+        }
+      }
+    }
+  };
+
+  // Read up to the track list, which comes before the first cluster
+  while (!track) {
+    if ((await nextElement()) === null) return null;
+  }
+
+  return {
+    config: track.config,
+    async read() {
+      const frames: EncodedAudioFrame[] = [];
+      let bytes = 0;
+      while (bytes < READ_BYTES) {
+        const next = await nextElement();
+        if (!next) break;
+        frames.push(...next);
+        bytes += next.reduce((sum, frame) => sum + frame.data.length, 0);
+      }
+      return frames.length > 0 ? frames : null;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Ogg
+
+interface OggPage {
+  serial: number;
+  granule: number;
+  packets: Uint8Array[];
+  // Whether the page's last packet goes on in the next page
+  continued: boolean;
+  first: boolean;
+}
+
+async function readOggPage(reader: FileReader): Promise<OggPage | null> {
+  if (!(await reader.ensure(27))) return null;
+  let header = reader.peek(27);
+  if (readAscii(header, 0, 4) !== 'OggS') return null;
+  const segmentCount = header[26];
+  if (!(await reader.ensure(27 + segmentCount))) return null;
+  header = reader.peek(27 + segmentCount);
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const lacing = header.subarray(27);
+  const bodySize = lacing.reduce((sum, size) => sum + size, 0);
+  if (!(await reader.ensure(27 + segmentCount + bodySize))) return null;
+
+  const body = reader.peek(bodySize, 27 + segmentCount);
+  const packets: Uint8Array[] = [];
+  let start = 0;
+  let length = 0;
+  lacing.forEach((size) => {
+    length += size;
+    if (size < 255) {
+      packets.push(body.slice(start, start + length));
+      start += length;
+      length = 0;
+    }
+  });
+  if (length > 0) packets.push(body.slice(start, start + length));
+
+  const page: OggPage = {
+    serial: view.getUint32(14, true),
+    granule: Number(view.getBigInt64(6, true)),
+    packets,
+    continued: lacing.length > 0 && lacing[lacing.length - 1] === 255,
+    first: (header[5] & 0x02) !== 0,
+  };
+  reader.skip(27 + segmentCount + bodySize);
+  return page;
+}
+
+// The decoder config from a stream's first packet, and how many header
+// packets follow it before the audio
+function oggConfig(packet: Uint8Array, headers: Uint8Array[]): { config: AudioDecoderConfig; headerCount: number } | null {
+  const view = new DataView(packet.buffer, packet.byteOffset, packet.byteLength);
+  if (readAscii(packet, 0, 8) === 'OpusHead') {
+    return { config: { codec: 'opus', sampleRate: 48000, numberOfChannels: packet[9], description: packet }, headerCount: 2 };
+  }
+  if (readAscii(packet, 0, 7) === '\x01vorbis') {
+    if (headers.length < 3) return { config: null, headerCount: 3 };
+    // Xiph lacing of the three header packets, as Matroska stores them
+    const lace = (size: number) => [...Array(Math.floor(size / 255)).fill(255), size % 255];
+    const description = concatBytes([
+      new Uint8Array([2, ...lace(headers[0].length), ...lace(headers[1].length)]),
+      ...headers.slice(0, 3),
+    ]);
+    return {
+      config: { codec: 'vorbis', sampleRate: view.getUint32(12, true), numberOfChannels: packet[11], description },
+      headerCount: 3,
+    };
+  }
+  if (readAscii(packet, 0, 5) === '\x7fFLAC') {
+    const description = packet.slice(9, 9 + 4 + 4 + 34);
+    // STREAMINFO is sent on its own, so it is marked the last block
+    description[4] |= 0x80;
+    return {
+      config: {
+        codec: 'flac',
+        sampleRate: (packet[27] << 12) | (packet[28] << 4) | (packet[29] >> 4),
+        numberOfChannels: ((packet[29] >> 1) & 0x07) + 1,
+        description,
+      },
+      headerCount: 1 + view.getUint16(7),
+    };
+  }
+  return null;
+}
+
+async function openOggTrack(file: Blob): Promise<EncodedAudioTrack | null> {
+  const reader = createFileReader(file);
+  let serial: number | null = null;
+  const headers: Uint8Array[] = [];
+  let setup: ReturnType<typeof oggConfig> = null;
+  let partial: Uint8Array | null = null;
+  let granule = 0;
+
+  // The complete packets of the next page of the audio stream
+  const nextPackets = async () => {
+    for (;;) {
+      const page = await readOggPage(reader);
+      if (!page) return null;
+      if (serial === null && page.first && oggConfig(page.packets[0] ?? new Uint8Array(), [])) serial = page.serial;
+      if (page.serial !== serial) continue;
+
+      const packets = [...page.packets];
+      if (partial && packets.length > 0) packets[0] = concatBytes([partial, packets[0]]);
+      partial = page.continued ? packets.pop() ?? null : null;
+      // Packets take the time their page starts at
+      const start = granule;
+      if (page.granule >= 0) granule = page.granule;
+      return { packets, start };
+    }
+  };
+
+  // Gather the header packets and keep any audio packets that share their page
+  while (!setup || headers.length < setup.headerCount) {
+    const next = await nextPackets();
+    if (!next) return null;
+    headers.push(...next.packets);
+    setup = headers.length > 0 ? oggConfig(headers[0], headers) : null;
+    if (!setup) return null;
+  }
+  if (!setup.config) return null;
+  // Audio packets that shared a page with the last header
+  let pending = headers.slice(setup.headerCount);
+
+  const { config } = setup;
+  const toMicroseconds = (samples: number) => Math.round((samples / config.sampleRate) * 1_000_000);
+  return {
+    config,
+    async read() {
+      const frames: EncodedAudioFrame[] = pending.map((data) => ({ data, timestamp: 0 }));
+      let bytes = pending.reduce((sum, packet) => sum + packet.length, 0);
+      pending = [];
+      while (bytes < READ_BYTES) {
+        const next = await nextPackets();
+        if (!next) break;
+        const timestamp = toMicroseconds(next.start);
+        next.packets.forEach((data) => {
+          frames.push({ data, timestamp });
+          bytes += data.length;
+        });
+      }
+      return frames.length > 0 ? frames : null;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+
+// The audio track of a file in one of the containers above, or null when the
+// container or its codec can't be read this way
+export async function openEncodedAudioTrack(file: Blob, format: string): Promise<EncodedAudioTrack | null> {
+  if (format === 'MP4' || format === 'M4A' || format === 'MOV') return openIsoTrack(file);
+  if (format === 'MKV' || format === 'WebM') return openMatroskaTrack(file);
+  if (format === 'OGG') return openOggTrack(file);
+  return null;
+}
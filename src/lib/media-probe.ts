@@ -0,0 +1,378 @@
+import { UnsupportedAudioError, WHISPER_SAMPLING_RATE } from '@/lib/audio';
+import { MEDIA_FORMATS, SUPPORTED_FORMAT_LABELS, type MediaFormat } from '@/lib/audio-formats';
+import { formatTimestamp } from '@/lib/transcript';
+
+// Identifies uploads from their bytes rather than File.type, which browsers
+// often leave empty or fill with a nonstandard value. The container header
+// names the format and codec; decoding the start of the file then confirms
+// this browser can actually read it.
+
+export interface MediaProbe {
+  format: MediaFormat;
+  // Audio codec, when the header names one
+  codec: string | null;
+  sampleRate: number | null;
+  channels: number | null;
+  // Seconds; null when the container does not say, as in live recordings
+  duration: number | null;
+  hasVideo: boolean;
+}
+
+type ContainerInfo = Omit<MediaProbe, 'duration'>;
+
+// Enough for every header we read; ISO BMFF files may keep theirs at the end
+const HEADER_BYTES = 64 * 1024;
+// Amount decoded to confirm the codec is readable
+const DECODE_PROBE_BYTES = 1024 * 1024;
+
+export const MPEG_SAMPLE_RATES = [44100, 48000, 32000];
+export const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+const WAV_CODECS: Record<number, string> = {
+  2: 'ADPCM',
+  3: 'PCM float',
+  6: 'A-law',
+  7: 'µ-law',
+  0x11: 'IMA ADPCM',
+  0x55: 'MP3',
+};
+
+const MATROSKA_CODECS: Record<string, string> = {
+  A_OPUS: 'Opus',
+  A_VORBIS: 'Vorbis',
+  A_AAC: 'AAC',
+  'A_MPEG/L3': 'MP3',
+  A_FLAC: 'FLAC',
+  A_PCM: 'PCM',
+  A_AC3: 'AC-3',
+  A_EAC3: 'E-AC-3',
+  A_DTS: 'DTS',
+  A_TRUEHD: 'TrueHD',
+};
+
+const MATROSKA_VIDEO_CODECS = ['V_VP8', 'V_VP9', 'V_AV1', 'V_MPEG4', 'V_MPEGH', 'V_THEORA'];
+
+const ISO_AUDIO_CODECS: Record<string, string> = {
+  mp4a: 'AAC',
+  Opus: 'Opus',
+  fLaC: 'FLAC',
+  alac: 'ALAC',
+  'ac-3': 'AC-3',
+  'ec-3': 'E-AC-3',
+  samr: 'AMR',
+  lpcm: 'PCM',
+  sowt: 'PCM',
+  twos: 'PCM',
+};
+
+const ISO_VIDEO_CODECS = ['avc1', 'avc3', 'hvc1', 'hev1', 'mp4v', 'av01', 'vp09'];
+
+function getFormat(label: string) {
+  return MEDIA_FORMATS.find((format) => format.label === label) as MediaFormat;
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function indexOfAscii(bytes: Uint8Array, text: string, from = 0) {
+  const first = text.charCodeAt(0);
+  for (let i = Math.max(0, from); i <= bytes.length - text.length; i++) {
+    if (bytes[i] !== first) continue;
+    let j = 1;
+    while (j < text.length && bytes[i + j] === text.charCodeAt(j)) j++;
+    if (j === text.length) return i;
+  }
+  return -1;
+}
+
+export interface WavLayout {
+  // WAVE format tag: 1 for integer PCM, 3 for float
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  // Bytes per sample frame, or per block of a compressed format
+  blockAlign: number;
+  // Byte range of the sample data; null if the data chunk was not found
+  dataOffset: number | null;
+  dataSize: number | null;
+}
+
+export function parseWavHeader(bytes: Uint8Array): WavLayout | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let layout: WavLayout | null = null;
+
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const id = readAscii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === 'fmt ' && offset + 24 <= bytes.length) {
+      let audioFormat = view.getUint16(offset + 8, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format GUID
+      if (audioFormat === 0xfffe && offset + 34 <= bytes.length) {
+        audioFormat = view.getUint16(offset + 32, true);
+      }
+      layout = {
+        audioFormat,
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+        blockAlign: view.getUint16(offset + 20, true),
+        dataOffset: null,
+        dataSize: null,
+      };
+    } else if (id === 'data' && layout) {
+      layout.dataOffset = offset + 8;
+      // Streamed and RF64 files leave the size unset
+      layout.dataSize = size === 0 || size === 0xffffffff ? null : size;
+      break;
+    }
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+  return layout;
+}
+
+function sniffWav(bytes: Uint8Array): ContainerInfo {
+  const layout = parseWavHeader(bytes);
+  const codec = !layout
+    ? null
+    : layout.audioFormat === 1
+      ? `PCM ${layout.bitsPerSample}-bit`
+      : WAV_CODECS[layout.audioFormat] ?? `format 0x${layout.audioFormat.toString(16)}`;
+
+  return {
+    format: getFormat('WAV'),
+    codec,
+    sampleRate: layout?.sampleRate ?? null,
+    channels: layout?.channels ?? null,
+    hasVideo: false,
+  };
+}
+
+function sniffFlac(bytes: Uint8Array): ContainerInfo {
+  // STREAMINFO is always the first metadata block
+  const hasStreamInfo = bytes.length >= 21 && (bytes[4] & 0x7f) === 0;
+  return {
+    format: getFormat('FLAC'),
+    codec: 'FLAC',
+    sampleRate: hasStreamInfo ? (bytes[18] << 12) | (bytes[19] << 4) | (bytes[20] >> 4) : null,
+    channels: hasStreamInfo ? ((bytes[20] >> 1) & 0x07) + 1 : null,
+    hasVideo: false,
+  };
+}
+
+function sniffOgg(bytes: Uint8Array, view: DataView): ContainerInfo {
+  const info: ContainerInfo = { format: getFormat('OGG'), codec: null, sampleRate: null, channels: null, hasVideo: false };
+  // The first page holds only the codec's identification header
+  const packet = 27 + (bytes[26] ?? 0);
+  if (packet + 16 > bytes.length) return info;
+
+  if (readAscii(bytes, packet, 8) === 'OpusHead') {
+    // Opus always decodes at 48 kHz, whatever rate was recorded
+    return { ...info, codec: 'Opus', sampleRate: 48000, channels: bytes[packet + 9] };
+  }
+  if (readAscii(bytes, packet + 1, 6) === 'vorbis') {
+    return { ...info, codec: 'Vorbis', sampleRate: view.getUint32(packet + 12, true), channels: bytes[packet + 11] };
+  }
+  if (readAscii(bytes, packet + 1, 4) === 'FLAC') return { ...info, codec: 'FLAC' };
+  if (readAscii(bytes, packet, 5) === 'Speex') return { ...info, codec: 'Speex' };
+  return info;
+}
+
+function sniffMatroska(bytes: Uint8Array, view: DataView): ContainerInfo {
+  // The EBML header names the document type before any tracks
+  const isWebm = indexOfAscii(bytes.subarray(0, 64), 'webm') !== -1;
+  const info: ContainerInfo = {
+    format: getFormat(isWebm ? 'WebM' : 'MKV'),
+    codec: null,
+    sampleRate: null,
+    channels: null,
+    hasVideo: MATROSKA_VIDEO_CODECS.some((id) => indexOfAscii(bytes, id) !== -1),
+  };
+
+  let codecOffset = -1;
+  Object.entries(MATROSKA_CODECS).forEach(([id, codec]) => {
+    const offset = indexOfAscii(bytes, id);
+    if (offset !== -1 && (codecOffset === -1 || offset < codecOffset)) {
+      codecOffset = offset;
+      info.codec = codec;
+    }
+  });
+  if (codecOffset === -1) return info;
+
+  // SamplingFrequency (0xB5) and Channels (0x9F) sit near the audio track's CodecID
+  const from = Math.max(0, codecOffset - 256);
+  const to = Math.min(bytes.length - 9, codecOffset + 512);
+  for (let i = from; i < to; i++) {
+    if (bytes[i] === 0xb5 && bytes[i + 1] === 0x88 && info.sampleRate === null) {
+      info.sampleRate = Math.round(view.getFloat64(i + 2));
+    } else if (bytes[i] === 0xb5 && bytes[i + 1] === 0x84 && info.sampleRate === null) {
+      info.sampleRate = Math.round(view.getFloat32(i + 2));
+    } else if (bytes[i] === 0x9f && bytes[i + 1] === 0x81 && info.channels === null) {
+      info.channels = bytes[i + 2];
+    }
+  }
+  if (info.sampleRate !== null && (info.sampleRate < 1000 || info.sampleRate > 384000)) {
+    info.sampleRate = null;
+  }
+  return info;
+}
+
+function sniffIsoMedia(bytes: Uint8Array, view: DataView): ContainerInfo {
+  const brand = readAscii(bytes, 8, 4);
+  const label = brand === 'qt  ' ? 'MOV' : ['M4A ', 'M4B '].includes(brand) ? 'M4A' : 'MP4';
+  const info: ContainerInfo = { format: getFormat(label), codec: null, sampleRate: null, channels: null, hasVideo: false };
+
+  // Each track's sample description names its codec
+  for (let stsd = indexOfAscii(bytes, 'stsd'); stsd !== -1; stsd = indexOfAscii(bytes, 'stsd', stsd + 4)) {
+    const entry = stsd + 12;
+    if (entry + 32 > bytes.length) break;
+    const fourcc = readAscii(bytes, entry, 4);
+
+    if (ISO_VIDEO_CODECS.includes(fourcc)) {
+      info.hasVideo = true;
+    } else if (ISO_AUDIO_CODECS[fourcc] && info.codec === null) {
+      info.codec = ISO_AUDIO_CODECS[fourcc];
+      info.channels = view.getUint16(entry + 20);
+      // 16.16 fixed point; the integer part is enough
+      info.sampleRate = view.getUint16(entry + 28) || null;
+    }
+  }
+  return info;
+}
+
+function sniffMpegAudio(bytes: Uint8Array): ContainerInfo | null {
+  let start = 0;
+  // Skip an ID3v2 tag, whose size is stored as a syncsafe integer
+  if (readAscii(bytes, 0, 3) === 'ID3' && bytes.length >= 10) {
+    const size = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+    start = 10 + size + (bytes[5] & 0x10 ? 10 : 0);
+  }
+
+  // Some encoders pad with zeros before the first frame; anything else is not MPEG audio
+  for (let i = start; i < Math.min(bytes.length - 4, start + 4096); i++) {
+    if (bytes[i] !== 0xff) {
+      if (bytes[i] !== 0) return null;
+      continue;
+    }
+    if ((bytes[i + 1] & 0xe0) !== 0xe0) return null;
+
+    if ((bytes[i + 1] & 0xf6) === 0xf0) {
+      const rateIndex = (bytes[i + 2] >> 2) & 0x0f;
+      if (rateIndex >= ADTS_SAMPLE_RATES.length) continue;
+      return {
+        format: getFormat('AAC'),
+        codec: 'AAC',
+        sampleRate: ADTS_SAMPLE_RATES[rateIndex],
+        channels: ((bytes[i + 2] & 0x01) << 2) | (bytes[i + 3] >> 6) || null,
+        hasVideo: false,
+      };
+    }
+
+    const version = (bytes[i + 1] >> 3) & 0x03;
+    const layer = (bytes[i + 1] >> 1) & 0x03;
+    const rateIndex = (bytes[i + 2] >> 2) & 0x03;
+    const bitrateIndex = bytes[i + 2] >> 4;
+    if (version === 1 || layer === 0 || rateIndex === 3 || bitrateIndex === 0x0f) continue;
+
+    // MPEG-2 halves the MPEG-1 rates and MPEG-2.5 quarters them
+    const divisor = version === 3 ? 1 : version === 2 ? 2 : 4;
+    return {
+      format: getFormat('MP3'),
+      codec: layer === 1 ? 'MP3' : `MPEG layer ${4 - layer}`,
+      sampleRate: MPEG_SAMPLE_RATES[rateIndex] / divisor,
+      channels: bytes[i + 3] >> 6 === 3 ? 1 : 2,
+      hasVideo: false,
+    };
+  }
+  return null;
+}
+
+export function sniffContainer(bytes: Uint8Array): ContainerInfo | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const magic = readAscii(bytes, 0, 4);
+
+  if ((magic === 'RIFF' || magic === 'RF64') && readAscii(bytes, 8, 4) === 'WAVE') return sniffWav(bytes);
+  if (magic === 'fLaC') return sniffFlac(bytes);
+  if (magic === 'OggS') return sniffOgg(bytes, view);
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return sniffMatroska(bytes, view);
+  if (readAscii(bytes, 4, 4) === 'ftyp') return sniffIsoMedia(bytes, view);
+  return sniffMpegAudio(bytes);
+}
+
+// Duration as reported by the browser's media stack; null if it cannot open the file
+function loadDuration(file: Blob) {
+  return new Promise<number | null>((resolve) => {
+    const audio = new Audio();
+    const url = URL.createObjectURL(file);
+    const finish = (duration: number | null) => {
+      URL.revokeObjectURL(url);
+      audio.removeAttribute('src');
+      resolve(duration);
+    };
+
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => finish(null);
+    audio.src = url;
+  });
+}
+
+// Decodes the start of the file, or all of it when small. Resolves to null on failure.
+async function decodeHead(file: Blob) {
+  const audioContext = new AudioContext({ sampleRate: WHISPER_SAMPLING_RATE });
+  try {
+    const slice = file.size > DECODE_PROBE_BYTES ? file.slice(0, DECODE_PROBE_BYTES) : file;
+    const audioBuffer = await audioContext.decodeAudioData(await slice.arrayBuffer());
+    return audioBuffer.length > 0 ? audioBuffer : null;
+  } catch {
+    return null;
+  } finally {
+    audioContext.close();
+  }
+}
+
+export async function probeMediaFile(file: File): Promise<MediaProbe> {
+  let header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  // Files not written for streaming keep the ISO BMFF index after the media data
+  if (readAscii(header, 4, 4) === 'ftyp' && file.size > HEADER_BYTES && indexOfAscii(header, 'stsd') === -1) {
+    const tail = new Uint8Array(await file.slice(-HEADER_BYTES).arrayBuffer());
+    const joined = new Uint8Array(header.length + tail.length);
+    joined.set(header);
+    joined.set(tail, header.length);
+    header = joined;
+  }
+
+  const container = sniffContainer(header);
+  if (!container) {
+    throw new UnsupportedAudioError(`This file is not a recognized audio or video format. Supported formats: ${SUPPORTED_FORMAT_LABELS}.`);
+  }
+
+  const [duration, decoded] = await Promise.all([loadDuration(file), decodeHead(file)]);
+  // A prefix of an ISO BMFF file without its index cannot be decoded on its own,
+  // so for those the media element opening the file is the decode check
+  if (!decoded && duration === null) {
+    const what = container.codec ? `${container.codec} audio in this ${container.format.label} file` : `this ${container.format.label} file`;
+    throw new UnsupportedAudioError(`Your browser cannot decode ${what}. Try converting it to MP3 or M4A (AAC).`);
+  }
+  if (!decoded) {
+    console.warn('Decode probe failed; relying on the media element instead');
+  }
+
+  return {
+    ...container,
+    channels: container.channels ?? decoded?.numberOfChannels ?? null,
+    duration: duration ?? (decoded && file.size <= DECODE_PROBE_BYTES ? decoded.duration : null),
+  };
+}
+
+export function describeProbe(probe: MediaProbe) {
+  const parts = [probe.hasVideo ? `${probe.format.label} video` : probe.format.label];
+  if (probe.codec) parts.push(probe.codec);
+  if (probe.sampleRate) parts.push(`${(probe.sampleRate / 1000).toLocaleString()} kHz`);
+  if (probe.channels) parts.push(probe.channels === 1 ? 'mono' : probe.channels === 2 ? 'stereo' : `${probe.channels} channels`);
+  if (probe.duration !== null) parts.push(formatTimestamp(probe.duration));
+  return parts.join(' · ');
+}
@@ -0,0 +1,92 @@
+// transformers.js stores every downloaded model file in this Cache Storage bucket
+const MODEL_CACHE_NAME = 'transformers-cache';
+
+// Hub URLs look like https://huggingface.co/<org>/<model>/resolve/<revision>/<file>
+const HUB_URL_PATTERN = /^https?:\/\/[^/]+\/(.+?)\/resolve\/[^/]+\/(.+)$/;
+
+export interface CachedModelFile {
+  url: string;
+  file: string;
+  size: number;
+}
+
+export interface CachedModel {
+  modelId: string;
+  // "remote" when downloaded from the hub, otherwise the local URL it was served from
+  source: string;
+  files: CachedModelFile[];
+  size: number;
+}
+
+function parseCacheUrl(url: string) {
+  const hubMatch = url.match(HUB_URL_PATTERN);
+  if (hubMatch) {
+    return { modelId: hubMatch[1], file: hubMatch[2], source: 'remote' };
+  }
+
+  // Local layout is <path>/<org>/<model>/<file>, where weights live in an
+  // onnx/ subfolder and configs sit directly in the model folder
+  const { origin, pathname } = new URL(url);
+  const segments = pathname.split('/').filter(Boolean);
+  const fileStart = segments.includes('onnx') ? segments.indexOf('onnx') : segments.length - 1;
+  const modelStart = Math.max(0, fileStart - 2);
+
+  return {
+    modelId: segments.slice(modelStart, fileStart).join('/'),
+    file: segments.slice(fileStart).join('/'),
+    source: `${origin}/${segments.slice(0, modelStart).join('/')}`,
+  };
+}
+
+async function getResponseSize(response: Response) {
+  const contentLength = response.headers.get('content-length');
+  if (contentLength) {
+    return Number(contentLength);
+  }
+  return (await response.blob()).size;
+}
+
+export function isModelCacheAvailable() {
+  return typeof caches !== 'undefined';
+}
+
+export async function listCachedModels(): Promise<CachedModel[]> {
+  if (!isModelCacheAvailable()) return [];
+
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const requests = await cache.keys();
+  const models = new Map<string, CachedModel>();
+
+  for (const request of requests) {
+    const response = await cache.match(request);
+    if (!response) continue;
+
+    const { modelId, file, source } = parseCacheUrl(request.url);
+    const size = await getResponseSize(response);
+    const key = `${source}|${modelId}`;
+
+    const model = models.get(key) ?? { modelId, source, files: [], size: 0 };
+    model.files.push({ url: request.url, file, size });
+    model.size += size;
+    models.set(key, model);
+  }
+
+  return [...models.values()].sort((a, b) => a.modelId.localeCompare(b.modelId));
+}
+
+export async function deleteCachedModel(model: CachedModel) {
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  await Promise.all(model.files.map((file) => cache.delete(file.url)));
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
@@ -0,0 +1,247 @@
+import type {
+  ModelLoadStatus,
+  TranscribeOptions,
+  TranscriptionEvent,
+  TranscriptionOutput,
+  TranscriptionRequest,
+} from '@/workers/transcription-protocol';
+import { loadModelSource, resolveModelPath, saveModelSource, type ModelSource } from '@/lib/model-source';
+import { isSameModel, type ModelSelection } from '@/lib/transcription-settings';
+
+// Owns the single transcription worker for the session, so each Whisper
+// pipeline is downloaded and initialized at most once.
+
+export type ModelStatus = 'idle' | ModelLoadStatus | 'error';
+
+export interface ModelState {
+  // The model the status refers to; null until one is requested
+  model: ModelSelection | null;
+  status: ModelStatus;
+  // Combined download progress of all model files, 0-100
+  progress: number | null;
+  error: string | null;
+  source: ModelSource;
+}
+
+export interface TranscriptionHandlers {
+  onProgress?: (completed: number, total: number) => void;
+  onPartial?: (index: number, text: string) => void;
+}
+
+interface PendingJob extends TranscriptionHandlers {
+  id: number;
+  resolve: (output: TranscriptionOutput) => void;
+  reject: (error: Error) => void;
+  // Called once the worker has finished with the job, however it ended
+  settle: () => void;
+}
+
+const listeners: Array<(state: ModelState) => void> = [];
+
+let memoryState: ModelState = { model: null, status: 'idle', progress: null, error: null, source: loadModelSource() };
+let worker: Worker | null = null;
+let pendingJob: PendingJob | null = null;
+let nextJobId = 1;
+// Transcriptions waiting for the worker, in the order they will run
+const waitingJobs: Array<{ priority: boolean; run: () => void }> = [];
+let workerBusy = false;
+const fileProgress = new Map<string, { loaded: number; total: number }>();
+
+function setState(update: Partial<ModelState>) {
+  memoryState = { ...memoryState, ...update };
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+function runNextJob() {
+  const next = waitingJobs.shift();
+  workerBusy = Boolean(next);
+  next?.run();
+}
+
+// Finishes the running job if the reply is about it; replies about a job
+// that was already given up on are dropped
+function finishJob(jobId: number | null, complete: (job: PendingJob) => void) {
+  if (jobId === null || pendingJob?.id !== jobId) return;
+  const job = pendingJob;
+  pendingJob = null;
+  if (job) {
+    complete(job);
+    job.settle();
+  }
+}
+
+function createAbortError() {
+  return new DOMException('Transcription was stopped', 'AbortError');
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function handleMessage(event: MessageEvent<TranscriptionEvent>) {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'model-status':
+      if (message.status === 'downloading') {
+        fileProgress.clear();
+      }
+      setState({
+        model: message.model,
+        status: message.status,
+        error: null,
+        ...(message.status === 'downloading' ? { progress: null } : {}),
+        ...(message.status === 'ready' ? { progress: 100 } : {}),
+      });
+      break;
+    case 'load-progress': {
+      fileProgress.set(message.file, { loaded: message.loaded, total: message.total });
+      let loaded = 0;
+      let total = 0;
+      fileProgress.forEach((file) => {
+        loaded += file.loaded;
+        total += file.total;
+      });
+      setState({ progress: total > 0 ? (loaded / total) * 100 : null });
+      break;
+    }
+    case 'progress':
+      if (pendingJob?.id === message.jobId) pendingJob.onProgress?.(message.completed, message.total);
+      break;
+    case 'partial':
+      if (pendingJob?.id === message.jobId) pendingJob.onPartial?.(message.index, message.text);
+      break;
+    case 'done':
+      finishJob(message.jobId, (job) => job.resolve(message.output));
+      break;
+    case 'cancelled':
+      finishJob(message.jobId, (job) => job.reject(createAbortError()));
+      break;
+    case 'error':
+      if (memoryState.status !== 'ready') {
+        setState({ status: 'error', error: message.message });
+      }
+      finishJob(message.jobId, (job) => job.reject(new Error(message.message)));
+      break;
+  }
+}
+
+// The worker failed outside any request, e.g. its script did not load or it
+// ran out of memory. It is replaced on the next request, and the job it was
+// running fails so the jobs waiting behind it can go ahead.
+function handleCrash(event: ErrorEvent) {
+  console.error('Transcription worker crashed:', event.message);
+  event.preventDefault();
+  worker?.terminate();
+  worker = null;
+  setState({ status: 'error', error: event.message || 'The transcription worker stopped unexpectedly' });
+  finishJob(pendingJob?.id ?? null, (job) => job.reject(new Error('The transcription worker stopped unexpectedly')));
+}
+
+function getWorker() {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/transcription.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    worker.onerror = handleCrash;
+    worker.postMessage({
+      type: 'configure',
+      source: { ...memoryState.source, localModelPath: resolveModelPath(memoryState.source.localModelPath) },
+    } satisfies TranscriptionRequest);
+  }
+  return worker;
+}
+
+function send(request: TranscriptionRequest, transfer: Transferable[] = []) {
+  getWorker().postMessage(request, transfer);
+}
+
+export function getModelState() {
+  return memoryState;
+}
+
+export function subscribeModelState(listener: (state: ModelState) => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+// Switching source discards the loaded pipeline; the next request reloads it
+export function setModelSource(source: ModelSource) {
+  if (pendingJob) {
+    throw new Error('Cannot change the model source while a transcription is running');
+  }
+
+  saveModelSource(source);
+
+  if (worker) {
+    worker.terminate();
+    worker = null;
+  }
+  setState({ model: null, status: 'idle', progress: null, error: null, source });
+}
+
+// Starts downloading and warming up a model without transcribing anything
+export function preloadModel(model: ModelSelection) {
+  const isCurrent = isSameModel(memoryState.model, model);
+  if (!isCurrent || memoryState.status === 'idle' || memoryState.status === 'error') {
+    setState({ model, status: 'downloading', progress: null, error: null });
+    send({ type: 'load', model });
+  }
+}
+
+// Jobs run one at a time in the order they were requested, except that a
+// priority job, such as a live caption window, goes ahead of every waiting job
+// without priority. Aborting rejects at once; the worker stops at its next
+// decoding step before taking the next job.
+export function transcribeWithModel(
+  audio: Float32Array,
+  model: ModelSelection,
+  options: TranscribeOptions,
+  handlers: TranscriptionHandlers = {},
+  signal?: AbortSignal,
+  priority = false,
+) {
+  return new Promise<TranscriptionOutput>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const jobId = nextJobId++;
+    const onAbort = () => {
+      reject(createAbortError());
+      if (pendingJob?.id === jobId) {
+        send({ type: 'cancel', jobId });
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const run = () => {
+      if (signal?.aborted) {
+        runNextJob();
+        return;
+      }
+      pendingJob = {
+        ...handlers,
+        id: jobId,
+        resolve,
+        reject,
+        settle: () => {
+          signal?.removeEventListener('abort', onAbort);
+          runNextJob();
+        },
+      };
+      send({ type: 'transcribe', jobId, audio, model, options }, [audio.buffer]);
+    };
+
+    const position = priority ? waitingJobs.findIndex((job) => !job.priority) : -1;
+    waitingJobs.splice(position === -1 ? waitingJobs.length : position, 0, { priority, run });
+    if (!workerBusy) runNextJob();
+  });
+}
@@ -0,0 +1,40 @@
+// Where transformers.js fetches model weights from. "remote" uses the Hugging
+// Face hub; "local" serves them from the app's own public/models/ folder or
+// any other URL laid out as <path>/<org>/<model>/<file>.
+
+export type ModelSourceMode = 'remote' | 'local';
+
+export interface ModelSource {
+  mode: ModelSourceMode;
+  localModelPath: string;
+}
+
+const STORAGE_KEY = 'model-source';
+
+export const DEFAULT_LOCAL_MODEL_PATH = import.meta.env.VITE_LOCAL_MODEL_PATH || `${import.meta.env.BASE_URL}models/`;
+
+export const DEFAULT_MODEL_SOURCE: ModelSource = {
+  mode: import.meta.env.VITE_MODEL_SOURCE === 'local' ? 'local' : 'remote',
+  localModelPath: DEFAULT_LOCAL_MODEL_PATH,
+};
+
+export function loadModelSource(): ModelSource {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_MODEL_SOURCE, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Ignoring invalid model source settings:', error);
+  }
+  return DEFAULT_MODEL_SOURCE;
+}
+
+export function saveModelSource(source: ModelSource) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(source));
+}
+
+// Relative paths would resolve against the worker script, so make them absolute
+export function resolveModelPath(path: string) {
+  return new URL(path.trim() || DEFAULT_LOCAL_MODEL_PATH, window.location.href).href;
+}
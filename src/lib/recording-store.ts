@@ -0,0 +1,131 @@
+import {
+  RECORDINGS_STORE,
+  RECORDING_CHUNKS_STORE,
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+} from '@/lib/database';
+
+// Persists recorder data slices as they arrive, so a crash or closed tab
+// loses at most the last slice of a recording.
+
+export interface StoredRecording {
+  id: string;
+  mimeType: string;
+  startedAt: number;
+  updatedAt: number;
+  elapsedMs: number;
+}
+
+interface StoredChunk {
+  recordingId: string;
+  sequence: number;
+  data: Blob;
+}
+
+// Where Web Locks are missing, a recording is taken as abandoned once it has
+// not been written to for this long
+const ABANDONED_AFTER_MS = 15000;
+// ...so while no slices arrive, e.g. when paused, it is touched this often
+export const HEARTBEAT_MS = 5000;
+
+// Releases the locks this tab holds on its open recordings
+const heldLocks = new Map<string, () => void>();
+
+function getLockName(recordingId: string) {
+  return `recording:${recordingId}`;
+}
+
+// The tab recording holds a lock on it until the recording is finished or
+// dropped, paused or not. Locks go when the tab closes or crashes, so a
+// recording nobody holds is abandoned.
+async function acquireLock(recordingId: string) {
+  if (!navigator.locks) return;
+  await new Promise<void>((granted) => {
+    navigator.locks.request(getLockName(recordingId), () => {
+      granted();
+      return new Promise<void>((release) => heldLocks.set(recordingId, release));
+    });
+  });
+}
+
+export function releaseRecording(recordingId: string) {
+  heldLocks.get(recordingId)?.();
+  heldLocks.delete(recordingId);
+}
+
+export async function createRecording(mimeType: string): Promise<StoredRecording> {
+  const now = Date.now();
+  const recording: StoredRecording = {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    elapsedMs: 0,
+  };
+
+  // Locked before it is stored, so no other tab ever sees it unheld
+  await acquireLock(recording.id);
+  const database = await openDatabase();
+  const transaction = database.transaction(RECORDINGS_STORE, 'readwrite');
+  transaction.objectStore(RECORDINGS_STORE).put(recording);
+  await transactionDone(transaction);
+  return recording;
+}
+
+export async function appendRecordingChunk(recording: StoredRecording, sequence: number, data: Blob, elapsedMs: number) {
+  const database = await openDatabase();
+  const transaction = database.transaction([RECORDINGS_STORE, RECORDING_CHUNKS_STORE], 'readwrite');
+  const chunk: StoredChunk = { recordingId: recording.id, sequence, data };
+
+  transaction.objectStore(RECORDING_CHUNKS_STORE).add(chunk);
+  transaction.objectStore(RECORDINGS_STORE).put({ ...recording, updatedAt: Date.now(), elapsedMs });
+  await transactionDone(transaction);
+}
+
+// Marks a recording as still open. Only needed without Web Locks.
+export async function touchRecording(recordingId: string) {
+  if (navigator.locks) return;
+  const database = await openDatabase();
+  const transaction = database.transaction(RECORDINGS_STORE, 'readwrite');
+  const store = transaction.objectStore(RECORDINGS_STORE);
+  const recording = await promisifyRequest<StoredRecording | undefined>(store.get(recordingId));
+  if (recording) store.put({ ...recording, updatedAt: Date.now() });
+  await transactionDone(transaction);
+}
+
+export async function listAbandonedRecordings(): Promise<StoredRecording[]> {
+  const database = await openDatabase();
+  const store = database.transaction(RECORDINGS_STORE).objectStore(RECORDINGS_STORE);
+  const recordings = await promisifyRequest<StoredRecording[]>(store.getAll());
+  const cutoff = Date.now() - ABANDONED_AFTER_MS;
+  const held = navigator.locks
+    ? new Set((await navigator.locks.query()).held?.map((lock) => lock.name))
+    : null;
+
+  return recordings
+    .filter((recording) => (held ? !held.has(getLockName(recording.id)) : recording.updatedAt < cutoff))
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Joins the stored slices back into one playable file
+export async function loadRecordingBlob(recording: StoredRecording): Promise<Blob> {
+  const database = await openDatabase();
+  const index = database.transaction(RECORDING_CHUNKS_STORE).objectStore(RECORDING_CHUNKS_STORE).index('recordingId');
+  const chunks = await promisifyRequest<StoredChunk[]>(index.getAll(recording.id));
+
+  chunks.sort((a, b) => a.sequence - b.sequence);
+  return new Blob(chunks.map((chunk) => chunk.data), { type: recording.mimeType });
+}
+
+export async function deleteRecording(recordingId: string) {
+  releaseRecording(recordingId);
+  const database = await openDatabase();
+  const transaction = database.transaction([RECORDINGS_STORE, RECORDING_CHUNKS_STORE], 'readwrite');
+  const chunks = transaction.objectStore(RECORDING_CHUNKS_STORE);
+
+  transaction.objectStore(RECORDINGS_STORE).delete(recordingId);
+  const keys = await promisifyRequest(chunks.index('recordingId').getAllKeys(recordingId));
+  keys.forEach((key) => chunks.delete(key));
+  await transactionDone(transaction);
+}
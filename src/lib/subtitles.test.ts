@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SUBTITLE_OPTIONS, transcriptToSubtitles, type SubtitleOptions } from '@/lib/subtitles';
+import { getTranscriptWords, type Transcript, type TranscriptSegment } from '@/lib/transcript';
+
+// One segment per text, starting at `start` seconds, its words 0.3 s long
+// with 0.1 s between them. A "/" stands for a two-second pause.
+function transcriptOf(texts: string[], start = 0, options: Partial<Transcript> = {}): Transcript {
+  let time = start;
+  const segments = texts.map((text): TranscriptSegment => {
+    const segmentStart = time;
+    const words: TranscriptSegment['words'] = [];
+    text.split(' ').forEach((token) => {
+      if (token === '/') {
+        time += 2;
+        return;
+      }
+      words.push({ start: time, end: time + 0.3, text: token, confidence: null });
+      time += 0.4;
+    });
+    return { start: segmentStart, end: time, text: words.map((word) => word.text).join(' '), words };
+  });
+  return { segments, language: 'en', translated: false, duration: time, ...options };
+}
+
+function subtitles(transcript: Transcript, format: 'srt' | 'vtt', options: Partial<SubtitleOptions> = {}) {
+  return transcriptToSubtitles(transcript, getTranscriptWords(transcript), format, { ...DEFAULT_SUBTITLE_OPTIONS, ...options });
+}
+
+// The lines of each cue, without numbers or timings
+function cueLines(text: string) {
+  return text.trim().split('\n\n').map((block) => block.split('\n').filter((line) => !/^\d+$|-->|^WEBVTT$/.test(line)));
+}
+
+describe('transcriptToSubtitles', () => {
+  it('writes numbered SRT cues with comma timestamps', () => {
+    const { text, cueCount } = subtitles(transcriptOf(['hello there']), 'srt');
+    expect(cueCount).toBe(1);
+    expect(text).toBe('1\n00:00:00,000 --> 00:00:01,000\nhello there\n');
+  });
+
+  it('writes WebVTT with a header and dot timestamps', () => {
+    expect(subtitles(transcriptOf(['hello there']), 'vtt').text).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:01.000\nhello there\n');
+  });
+
+  it('formats hours and rounds to milliseconds', () => {
+    const { text } = subtitles(transcriptOf(['late'], 3723.4567), 'srt');
+    expect(text).toContain('01:02:03,457 --> 01:02:04,457');
+  });
+
+  it('starts a new cue after a pause', () => {
+    expect(cueLines(subtitles(transcriptOf(['first part / second part']), 'srt').text)).toEqual([['first part'], ['second part']]);
+  });
+
+  it('keeps cues apart instead of lengthening one into the next', () => {
+    const { text } = subtitles(transcriptOf(['a / b']), 'srt');
+    // "a" is spoken 0-0.3 and "b" from 2.4; the first is held for a second, not until "b"
+    expect(text).toContain('00:00:00,000 --> 00:00:01,000');
+    expect(text).toContain('00:00:02,400 --> 00:00:03,400');
+  });
+
+  it('breaks a cue into balanced lines at a phrase boundary', () => {
+    const transcript = transcriptOf(['the enzyme binds to its substrate, and the reaction starts quickly']);
+    expect(cueLines(subtitles(transcript, 'srt', { maxLineLength: 42 }).text)).toEqual([
+      ['the enzyme binds to its substrate,', 'and the reaction starts quickly'],
+    ]);
+  });
+
+  it('fills lines as far as they go when asked', () => {
+    const transcript = transcriptOf(['the enzyme binds to its substrate, and the reaction starts quickly']);
+    expect(cueLines(subtitles(transcript, 'srt', { lineSplitting: 'fill' }).text)).toEqual([
+      ['the enzyme binds to its substrate, and the', 'reaction starts quickly'],
+    ]);
+  });
+
+  it('never ends a line on a word that belongs with the next', () => {
+    const transcript = transcriptOf(['we now look at the structure of the membrane of the cell']);
+    cueLines(subtitles(transcript, 'srt', { maxLineLength: 30 }).text).flat().forEach((line) => {
+      expect(line).not.toMatch(/ (the|of|at)$/);
+    });
+  });
+
+  it('keeps every line and cue within the limits', () => {
+    const words = Array.from({ length: 60 }, (_, index) => `word${index}`).join(' ');
+    const options = { maxLineLength: 20, maxLines: 2 };
+    const cues = cueLines(subtitles(transcriptOf([words]), 'srt', options).text);
+    expect(cues.flat().join(' ')).toBe(words);
+    cues.forEach((lines) => {
+      expect(lines.length).toBeLessThanOrEqual(2);
+      lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(20));
+    });
+  });
+
+  it('ends a full cue at its last clause break', () => {
+    const transcript = transcriptOf(['first we heat the mixture slowly, then we add the catalyst and wait for it']);
+    const [first] = cueLines(subtitles(transcript, 'srt', { maxLineLength: 20, maxLines: 2 }).text);
+    expect(first[first.length - 1]).toMatch(/slowly,$/);
+  });
+
+  it('counts cues too fast to read', () => {
+    const fast = transcriptOf(['supercalifragilistic expialidocious / next']);
+    expect(subtitles(fast, 'srt', { maxCharsPerSecond: 5 }).fastCues).toBe(1);
+    expect(subtitles(fast, 'srt').fastCues).toBe(0);
+  });
+
+  it('labels speakers in SRT when the speaker changes, on a line with the first word', () => {
+    const transcript = transcriptOf(['what is it', 'an enzyme'], 0, { speakers: ['Lecturer', 'Student'] });
+    transcript.segments[0].speaker = 0;
+    transcript.segments[1].speaker = 1;
+    expect(cueLines(subtitles(transcript, 'srt').text)).toEqual([['Lecturer: what is it'], ['Student: an enzyme']]);
+  });
+
+  it('tags voices in WebVTT and escapes markup', () => {
+    const transcript = transcriptOf(['a<b & c'], 0, { speakers: ['Dr <Smith>'] });
+    transcript.segments[0].speaker = 0;
+    expect(subtitles(transcript, 'vtt').text).toContain('<v Dr &lt;Smith&gt;>a&lt;b &amp; c');
+  });
+
+  it('writes an empty file for no words', () => {
+    expect(subtitles(transcriptOf([]), 'srt')).toMatchObject({ cueCount: 0, fastCues: 0 });
+  });
+});
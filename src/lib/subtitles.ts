@@ -0,0 +1,245 @@
+import { getSpeakerName, type Transcript, type TranscriptWord } from '@/lib/transcript';
+
+// Captions built from timed words. Words are grouped into cues that fit the
+// line limits and end at sentences and pauses where they can, each cue is
+// broken into lines, and cues are held on screen long enough to read.
+
+export type LineSplitting = 'balanced' | 'fill';
+
+export interface SubtitleOptions {
+  maxLineLength: number;
+  maxLines: number;
+  // Reading speed cues are timed for, where the gaps between them allow
+  maxCharsPerSecond: number;
+  // Balanced lines of similar length, broken at punctuation and between
+  // phrases, or lines filled as far as they go
+  lineSplitting: LineSplitting;
+}
+
+interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker: number | null;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCharsPerSecond: 17,
+  lineSplitting: 'balanced',
+};
+
+// A silence this long always ends a cue, in seconds
+const CUE_GAP = 1.5;
+const MAX_CUE_DURATION = 7;
+const MIN_CUE_DURATION = 1;
+// Cues are kept this far apart so players do not show two at once
+const CUE_SEPARATION = 0.04;
+// A cue this full is ended at a sentence end rather than carried into the next sentence
+const SENTENCE_BREAK_FILL = 1 / 3;
+
+const SENTENCE_END = /[.!?…。？！।۔؟]["'”’)\]]*$/u;
+const CLAUSE_END = /[,;:—–]["'”’)\]]*$/u;
+
+// Lines should not end on these, away from the word they belong with
+const BINDING_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'my', 'your', 'his', 'her', 'its', 'our', 'their', 'of', 'to',
+  'in', 'on', 'at', 'by', 'for', 'with', 'from', 'into', 'onto', 'about', 'than', 'very', 'mr.', 'mrs.', 'ms.', 'dr.',
+]);
+// ...and may start on these, which open a new phrase
+const PHRASE_STARTS = new Set(['and', 'but', 'or', 'so', 'because', 'which', 'who', 'that', 'when', 'where', 'while', 'if', 'then']);
+
+function lineLength(words: string[]) {
+  return words.reduce((sum, word) => sum + word.length, 0) + Math.max(0, words.length - 1);
+}
+
+// Lines filled as far as they go, which is also the fewest lines possible
+function fillLines(words: string[], maxLineLength: number) {
+  const lines: string[][] = [];
+  words.forEach((word) => {
+    const line = lines[lines.length - 1];
+    if (line && lineLength([...line, word]) <= maxLineLength) {
+      line.push(word);
+    } else {
+      lines.push([word]);
+    }
+  });
+  return lines;
+}
+
+// Cost of a line break after `word`, lower where a reader would pause. Line
+// lengths cost the square of their distance from even, so these are in
+// squared characters.
+function breakCost(word: string, next: string) {
+  if (SENTENCE_END.test(word)) return -80;
+  if (CLAUSE_END.test(word)) return -50;
+  if (BINDING_WORDS.has(word.toLowerCase())) return 1000;
+  if (PHRASE_STARTS.has(next.toLowerCase())) return -20;
+  return 0;
+}
+
+// The fewest lines, as even as possible and broken where a reader would pause
+function balanceLines(words: string[], maxLineLength: number) {
+  const lineCount = fillLines(words, maxLineLength).length;
+  if (lineCount <= 1) return [words];
+
+  // cost[k][i]: cheapest layout of the first i words in k lines, and where its last line starts
+  const target = lineLength(words) / lineCount;
+  const cost = Array.from({ length: lineCount + 1 }, () => words.map(() => Infinity).concat(Infinity));
+  const from = Array.from({ length: lineCount + 1 }, () => new Array<number>(words.length + 1).fill(0));
+  cost[0][0] = 0;
+  for (let k = 1; k <= lineCount; k++) {
+    for (let i = 1; i <= words.length; i++) {
+      for (let j = 0; j < i; j++) {
+        if (cost[k - 1][j] === Infinity) continue;
+        const length = lineLength(words.slice(j, i));
+        // A single word longer than a line has to overflow
+        if (length > maxLineLength && i - j > 1) continue;
+        const lineBreak = i < words.length ? breakCost(words[i - 1], words[i]) : 0;
+        const total = cost[k - 1][j] + (length - target) ** 2 + lineBreak;
+        if (total < cost[k][i]) {
+          cost[k][i] = total;
+          from[k][i] = j;
+        }
+      }
+    }
+  }
+
+  const lines: string[][] = [];
+  let end = words.length;
+  for (let k = lineCount; k >= 1; k--) {
+    lines.unshift(words.slice(from[k][end], end));
+    end = from[k][end];
+  }
+  return lines;
+}
+
+function splitLines(words: string[], options: SubtitleOptions) {
+  const lines = options.lineSplitting === 'balanced'
+    ? balanceLines(words, options.maxLineLength)
+    : fillLines(words, options.maxLineLength);
+  return lines.map((line) => line.join(' '));
+}
+
+// Groups `words` into cues and times them. Cues are only lengthened into the
+// silence after them, so a cue that is still too fast to read is left so
+// rather than drifting from the speech. A speaker label opens the first cue of
+// each speaker, kept on a line with the first word, and counts toward its
+// line length.
+function buildCues(
+  words: TranscriptWord[],
+  options: SubtitleOptions,
+  speakerLabel: ((speaker: number | null) => string) | null,
+): SubtitleCue[] {
+  const capacity = options.maxLineLength * options.maxLines;
+  const groups: TranscriptWord[][] = [];
+  const labelled = new Set<TranscriptWord[]>();
+  const cueText = (group: TranscriptWord[]) => {
+    const text = group.map((word) => word.text);
+    if (!labelled.has(group) || !speakerLabel) return text;
+    return [`${speakerLabel(group[0].speaker)} ${text[0]}`, ...text.slice(1)];
+  };
+
+  words.forEach((word) => {
+    const group = groups[groups.length - 1];
+    const last = group?.[group.length - 1];
+    if (!group || last.speaker !== word.speaker) {
+      groups.push([word]);
+      labelled.add(groups[groups.length - 1]);
+      return;
+    }
+
+    const pauses = word.start - last.end >= CUE_GAP
+      || (SENTENCE_END.test(last.text) && lineLength(cueText(group)) >= capacity * SENTENCE_BREAK_FILL);
+    const full = word.end - group[0].start > MAX_CUE_DURATION
+      || fillLines([...cueText(group), word.text], options.maxLineLength).length > options.maxLines;
+    if (pauses) {
+      groups.push([word]);
+    } else if (full) {
+      // End the full cue at its last clause break, or else not on a word that
+      // belongs with the next, rather than wherever the space ran out
+      const text = cueText(group);
+      let split = group.length;
+      for (let i = group.length - 1; i > 0; i--) {
+        if ((SENTENCE_END.test(text[i - 1]) || CLAUSE_END.test(text[i - 1])) && lineLength(text.slice(0, i)) >= capacity / 2) {
+          split = i;
+          break;
+        }
+      }
+      if (split === group.length) {
+        while (split > 1 && BINDING_WORDS.has(group[split - 1].text.toLowerCase())) split--;
+      }
+      groups.push([...group.splice(split), word]);
+    } else {
+      group.push(word);
+    }
+  });
+
+  return groups.map((group, index) => {
+    const text = cueText(group);
+    const start = group[0].start;
+    const spoken = group[group.length - 1].end;
+    const next = groups[index + 1]?.[0].start ?? Infinity;
+    const readable = Math.max(MIN_CUE_DURATION, lineLength(text) / options.maxCharsPerSecond);
+    const end = Math.max(spoken, Math.min(start + readable, next - CUE_SEPARATION));
+    return { start, end, lines: splitLines(text, options), speaker: group[0].speaker };
+  });
+}
+
+// Cues with more characters per second than `options` allow
+function countFastCues(cues: SubtitleCue[], options: SubtitleOptions) {
+  return cues.filter((cue) => {
+    const duration = Math.max(cue.end - cue.start, 0.001);
+    return lineLength(cue.lines) / duration > options.maxCharsPerSecond;
+  }).length;
+}
+
+// hh:mm:ss,mmm for SRT or hh:mm:ss.mmm for WebVTT
+function formatCueTime(seconds: number, separator: string) {
+  const milliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(milliseconds / 3_600_000);
+  const minutes = Math.floor((milliseconds % 3_600_000) / 60_000);
+  const secs = Math.floor((milliseconds % 60_000) / 1000);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(milliseconds % 1000, 3)}`;
+}
+
+function escapeVtt(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Captions for `words`, the transcript's words as they should read. Speakers
+// are named when there are several: in SRT, which has no markup for it, with a
+// "Name:" label when the speaker changes, and in WebVTT with a voice tag on
+// every cue.
+export function transcriptToSubtitles(
+  transcript: Transcript,
+  words: TranscriptWord[],
+  format: SubtitleFormat,
+  options: SubtitleOptions,
+) {
+  const showSpeakers = Boolean(transcript.speakers?.length);
+  const speakerLabel = showSpeakers && format === 'srt'
+    ? (speaker: number | null) => `${getSpeakerName(transcript, speaker)}:`
+    : null;
+  const cues = buildCues(words, options, speakerLabel);
+
+  const blocks = cues.map((cue, index) => {
+    if (format === 'srt') {
+      return `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.lines.join('\n')}`;
+    }
+    const text = escapeVtt(cue.lines.join('\n'));
+    const voiced = showSpeakers ? `<v ${escapeVtt(getSpeakerName(transcript, cue.speaker))}>${text}` : text;
+    return `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${voiced}`;
+  });
+
+  return {
+    text: format === 'srt' ? `${blocks.join('\n\n')}\n` : `WEBVTT\n\n${blocks.join('\n\n')}\n`,
+    cueCount: cues.length,
+    // Cues that could not be given enough time to read
+    fastCues: countFastCues(cues, options),
+  };
+}
@@ -0,0 +1,160 @@
+import { averageConfidence, type Transcript, type TranscriptSegment } from '@/lib/transcript';
+import { longestCommonSubsequence, spreadWords, type WordTiming } from '@/lib/transcript-merge';
+
+// Hand corrections to a transcript. An edit only ever changes the text of a
+// segment, never its timing, so playback sync, speakers and exports keep
+// working. Every correction is kept on the transcript, in the order made, and
+// carries what it replaced so it can be undone.
+
+export interface TranscriptCorrection {
+  id: string;
+  segmentIndex: number;
+  // Where the corrected segment starts in the audio, in seconds
+  start: number;
+  before: string;
+  after: string;
+  // Word timings before and after the edit, when the segment has them
+  previousWords?: WordTiming[];
+  words?: WordTiming[];
+  correctedAt: string;
+}
+
+// Words of the new text that survive from the old keep their timing and
+// confidence; each run of changed words shares the time of the words it
+// replaced and, having been checked by hand, carries no confidence.
+function retimeWords(previous: WordTiming[], text: string, segment: TranscriptSegment) {
+  const next = text.split(/\s+/).filter(Boolean);
+  const pairs = longestCommonSubsequence(previous.map((word) => word.text), next);
+  const words: WordTiming[] = [];
+  let previousIndex = 0;
+  let nextIndex = 0;
+
+  [...pairs, [previous.length, next.length] as [number, number]].forEach(([i, j]) => {
+    const replaced = previous.slice(previousIndex, i);
+    const start = replaced[0]?.start ?? words[words.length - 1]?.end ?? segment.start;
+    const end = replaced[replaced.length - 1]?.end ?? previous[i]?.start ?? segment.end;
+    words.push(...spreadWords(start, Math.max(start, end), next.slice(nextIndex, j)));
+    if (i < previous.length) {
+      words.push({ ...previous[i], text: next[j] });
+    }
+    previousIndex = i + 1;
+    nextIndex = j + 1;
+  });
+  return words;
+}
+
+function withText(segment: TranscriptSegment, text: string, words: WordTiming[] | undefined): TranscriptSegment {
+  const { confidence: _confidence, words: _words, ...rest } = segment;
+  const confidence = words ? averageConfidence(words) : null;
+  return {
+    ...rest,
+    text,
+    ...(confidence !== null && { confidence }),
+    ...(words && { words }),
+  };
+}
+
+// The correction that sets a segment to the given text, or null if nothing changes
+export function correctSegment(transcript: Transcript, segmentIndex: number, text: string): TranscriptCorrection | null {
+  const segment = transcript.segments[segmentIndex];
+  const after = text.trim().replace(/\s+/g, ' ');
+  if (!segment || after === segment.text) return null;
+
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    segmentIndex,
+    start: segment.start,
+    before: segment.text,
+    after,
+    ...(segment.words && { previousWords: segment.words, words: retimeWords(segment.words, after, segment) }),
+    correctedAt: new Date().toISOString(),
+  };
+}
+
+export function applyCorrections(transcript: Transcript, corrections: TranscriptCorrection[]): Transcript {
+  const segments = [...transcript.segments];
+  corrections.forEach((correction) => {
+    segments[correction.segmentIndex] = withText(segments[correction.segmentIndex], correction.after, correction.words);
+  });
+  return { ...transcript, segments, corrections: [...(transcript.corrections ?? []), ...corrections] };
+}
+
+export function revertCorrections(transcript: Transcript, corrections: TranscriptCorrection[]): Transcript {
+  const segments = [...transcript.segments];
+  [...corrections].reverse().forEach((correction) => {
+    segments[correction.segmentIndex] = withText(
+      segments[correction.segmentIndex],
+      correction.before,
+      correction.previousWords,
+    );
+  });
+  const reverted = new Set(corrections.map((correction) => correction.id));
+  return {
+    ...transcript,
+    segments,
+    corrections: (transcript.corrections ?? []).filter((correction) => !reverted.has(correction.id)),
+  };
+}
+
+// Who speaks where: the speaker names and each segment's speaker, keyed by
+// the segment's start and end. Corrections never change timing, so labels
+// taken from a transcript still fit it after its text has been edited.
+export interface SpeakerLabels {
+  speakers: string[] | undefined;
+  bySegment: Record<string, number | undefined>;
+}
+
+// A change of speakers, such as identifying them or renaming one
+export interface SpeakerChange {
+  before: SpeakerLabels;
+  after: SpeakerLabels;
+}
+
+function segmentKey(segment: TranscriptSegment) {
+  return `${segment.start}-${segment.end}`;
+}
+
+export function getSpeakerLabels(transcript: Transcript): SpeakerLabels {
+  return {
+    speakers: transcript.speakers,
+    bySegment: Object.fromEntries(transcript.segments.map((segment) => [segmentKey(segment), segment.speaker])),
+  };
+}
+
+// Segments the labels do not cover keep their speaker
+export function applySpeakerLabels(transcript: Transcript, labels: SpeakerLabels): Transcript {
+  const { speakers: _speakers, ...rest } = transcript;
+  return {
+    ...rest,
+    ...(labels.speakers && { speakers: labels.speakers }),
+    segments: transcript.segments.map((segment) => {
+      const key = segmentKey(segment);
+      if (!(key in labels.bySegment)) return segment;
+      const { speaker: _speaker, ...unlabelled } = segment;
+      const speaker = labels.bySegment[key];
+      return speaker === undefined ? unlabelled : { ...unlabelled, speaker };
+    }),
+  };
+}
+
+// Just the words that changed, e.g. "neither's" -> "Noether's" out of a whole sentence
+export function summarizeCorrection(correction: TranscriptCorrection) {
+  const before = correction.before.split(' ');
+  const after = correction.after.split(' ');
+  let head = 0;
+  while (head < before.length && head < after.length && before[head] === after[head]) {
+    head++;
+  }
+  let tail = 0;
+  while (
+    tail < before.length - head
+    && tail < after.length - head
+    && before[before.length - 1 - tail] === after[after.length - 1 - tail]
+  ) {
+    tail++;
+  }
+  return {
+    from: before.slice(head, before.length - tail).join(' '),
+    to: after.slice(head, after.length - tail).join(' '),
+  };
+}
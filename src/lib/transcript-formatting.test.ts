@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { Transcript, TranscriptSegment } from '@/lib/transcript';
+import { formatTranscript, formattedToText, paragraphText } from '@/lib/transcript-formatting';
+
+// One segment per text, its words 0.3 s long with 0.1 s between them. A "/"
+// stands for a one-second pause and a "//" for a three-second one.
+function transcriptOf(texts: string[], options: Partial<Transcript> = {}): Transcript {
+  let time = 0;
+  const segments = texts.map((text): TranscriptSegment => {
+    const start = time;
+    const words: TranscriptSegment['words'] = [];
+    text.split(' ').forEach((token) => {
+      if (token === '/' || token === '//') {
+        time += token === '/' ? 1 : 3;
+        return;
+      }
+      words.push({ start: time, end: time + 0.3, text: token, confidence: null });
+      time += 0.4;
+    });
+    return { start, end: time, text: words.map((word) => word.text).join(' '), words };
+  });
+  return { segments, language: 'en', translated: false, duration: time, ...options };
+}
+
+function formattedText(transcript: Transcript) {
+  return formatTranscript(transcript).map(paragraphText);
+}
+
+describe('formatTranscript', () => {
+  it('ends and capitalizes sentences at pauses', () => {
+    expect(formattedText(transcriptOf(['so this is the cell / and here is the nucleus'])))
+      .toEqual(['So this is the cell. And here is the nucleus.']);
+  });
+
+  it('does not end a short phrase at a pause', () => {
+    expect(formattedText(transcriptOf(['the cell / is where it happens']))).toEqual(['The cell is where it happens.']);
+  });
+
+  it('keeps the recognizer\'s own punctuation', () => {
+    expect(formattedText(transcriptOf(['Is that right? yes it is.']))).toEqual(['Is that right? Yes it is.']);
+  });
+
+  it('marks questions by their opening words', () => {
+    expect(formattedText(transcriptOf(['why does the membrane matter / do you see the problem / it leaks'])))
+      .toEqual(['Why does the membrane matter? Do you see the problem? It leaks.']);
+  });
+
+  it('does not end sentences at titles and initials', () => {
+    expect(formattedText(transcriptOf(['we read Dr. Smith and J. Watson on this']))).toEqual(['We read Dr. Smith and J. Watson on this.']);
+  });
+
+  it('capitalizes a lone i', () => {
+    expect(formattedText(transcriptOf(["i think i'm right"]))).toEqual(["I think I'm right."]);
+  });
+
+  it('lowers a capital added at a segment start mid-sentence', () => {
+    expect(formattedText(transcriptOf(['we measure the rate', 'And then the yield of the reaction'])))
+      .toEqual(['We measure the rate and then the yield of the reaction.']);
+  });
+
+  it('drops a trailing comma before adding a full stop', () => {
+    expect(formattedText(transcriptOf(['this is where it ends,']))).toEqual(['This is where it ends.']);
+  });
+
+  it('uses the sentence endings of the transcript\'s language', () => {
+    const transcript = transcriptOf(['यह पहला वाक्य है / यह दूसरा वाक्य है'], { language: 'hi' });
+    expect(formattedText(transcript)).toEqual(['यह पहला वाक्य है। यह दूसरा वाक्य है।']);
+  });
+
+  it('leaves English rules out of other languages', () => {
+    expect(formattedText(transcriptOf(['Is es la casa de i'], { language: 'es' }))).toEqual(['Is es la casa de i.']);
+  });
+
+  it('starts a paragraph after a long pause', () => {
+    expect(formattedText(transcriptOf(['first we look at cells // then we look at tissues'])))
+      .toEqual(['First we look at cells.', 'Then we look at tissues.']);
+  });
+
+  it('starts a paragraph when the speaker changes', () => {
+    const transcript = transcriptOf(['what is the answer here', 'it is forty two']);
+    transcript.segments[0].speaker = 0;
+    transcript.segments[1].speaker = 1;
+    const paragraphs = formatTranscript(transcript);
+    expect(paragraphs.map((paragraph) => paragraph.speaker)).toEqual([0, 1]);
+  });
+
+  it('starts a paragraph when a new topic is announced', () => {
+    const transcript = transcriptOf([
+      'mitochondria make energy for cells /',
+      'they hold their own genome /',
+      'they divide on their own schedule /',
+      "now let's move on to the nucleus /",
+    ]);
+    expect(formattedText(transcript)).toHaveLength(2);
+  });
+
+  it('points every formatted word back at the raw word', () => {
+    const [paragraph] = formatTranscript(transcriptOf(['here is the cell']));
+    expect(paragraph.sentences[0].words.map((word) => [word.raw, word.text])).toEqual([
+      ['here', 'Here'], ['is', 'is'], ['the', 'the'], ['cell', 'cell.'],
+    ]);
+  });
+
+  it('formats nothing for an empty transcript', () => {
+    expect(formatTranscript(transcriptOf([]))).toEqual([]);
+  });
+});
+
+describe('formattedToText', () => {
+  it('names the speaker at each change of speaker', () => {
+    const transcript = transcriptOf(['what is the answer here', 'it is forty two // and that is final'], {
+      speakers: ['Lecturer', 'Student'],
+    });
+    transcript.segments[0].speaker = 0;
+    transcript.segments[1].speaker = 1;
+    expect(formattedToText(transcript, formatTranscript(transcript), { speakerLabels: true }))
+      .toBe('Lecturer: What is the answer here?\n\nStudent: It is forty two.\n\nAnd that is final.');
+  });
+});
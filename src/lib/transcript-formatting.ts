@@ -0,0 +1,265 @@
+import { getSpeakerName, getTranscriptWords, type Transcript, type TranscriptWord } from '@/lib/transcript';
+
+// A readable layout for run-on recognizer output. Sentence punctuation and
+// capitals are restored at pauses, and sentences are grouped into paragraphs
+// at long pauses, speaker changes and shifts in vocabulary. The transcript
+// itself stays raw, so corrections and search work on what was heard, and
+// every formatted word points back at the raw word it came from.
+
+export interface FormattedSentence {
+  start: number;
+  end: number;
+  words: TranscriptWord[];
+}
+
+export interface FormattedParagraph {
+  start: number;
+  end: number;
+  speaker: number | null;
+  sentences: FormattedSentence[];
+}
+
+interface FormattedTextOptions {
+  // Start each speaker's paragraphs with the speaker's name
+  speakerLabels?: boolean;
+}
+
+// A silence this long ends an unpunctuated sentence, in seconds
+const SENTENCE_PAUSE = 0.7;
+// ...but only once the sentence has this many words
+const MIN_SENTENCE_WORDS = 4;
+// A silence this long always starts a new paragraph
+const PARAGRAPH_PAUSE = 2.5;
+// Topic shifts are only taken once a paragraph has this many sentences
+const MIN_PARAGRAPH_SENTENCES = 3;
+// Paragraphs this long are ended at the next sentence
+const MAX_PARAGRAPH_WORDS = 180;
+// Sentences compared on each side of a possible topic shift
+const COHESION_WINDOW = 3;
+
+// Sentence endings for languages that do not use the Latin ones
+const SENTENCE_ENDINGS: Record<string, { statement: string; question: string }> = {
+  zh: { statement: '。', question: '？' },
+  ja: { statement: '。', question: '？' },
+  hi: { statement: '।', question: '?' },
+  mr: { statement: '।', question: '?' },
+  bn: { statement: '।', question: '?' },
+  ar: { statement: '.', question: '؟' },
+  fa: { statement: '.', question: '؟' },
+  ur: { statement: '۔', question: '؟' },
+};
+const LATIN_ENDINGS = { statement: '.', question: '?' };
+
+const TERMINAL_PUNCTUATION = /[.!?…。？！।۔؟]["'”’)\]]*$/u;
+const TRAILING_PAUSE_PUNCTUATION = /[,;:\-–—]+$/;
+
+// Words ending in a period that do not end a sentence
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'vs', 'fig', 'eq', 'approx', 'no', 'vol', 'ch', 'sec']);
+
+const QUESTION_WORDS = new Set(['what', 'why', 'how', 'who', 'whom', 'whose', 'where', 'when', 'which']);
+const AUXILIARIES = new Set([
+  'is', 'are', 'was', 'were', 'do', 'does', 'did', 'can', 'could', 'would', 'should', 'will', 'shall', 'has', 'have',
+  'had', "isn't", "aren't", "wasn't", "weren't", "don't", "doesn't", "didn't", "can't", "couldn't", "wouldn't",
+  "shouldn't", "won't",
+]);
+const SUBJECTS = new Set(['i', 'you', 'we', 'they', 'he', 'she', 'it', 'this', 'that', 'there', 'anyone', 'anybody', 'everyone', 'someone']);
+
+// Openings a lecturer uses to move to the next topic
+const TOPIC_CUES = [
+  /^(so,? |okay,? |ok,? |all right,? |alright,? )?(now,? )?(let's|let us) (move on|turn|look at|talk about|start|begin|switch)\b/i,
+  /^(moving on|next,? (we|let's)|the next (topic|thing|part|section)|another (topic|thing))\b/i,
+];
+
+// Common words, which say nothing about the topic and which Whisper often
+// capitalizes at the start of a segment even mid-sentence
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'but', 'or', 'so', 'if', 'then', 'than', 'that', 'this', 'these', 'those', 'to', 'of', 'in',
+  'on', 'at', 'by', 'for', 'with', 'from', 'as', 'into', 'about', 'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its',
+  'we', 'you', 'they', 'he', 'she', 'our', 'your', 'their', 'his', 'her', 'which', 'who', 'what', 'when', 'where', 'how',
+  'not', 'can', 'will', 'would', 'could', 'should', 'do', 'does', 'did', 'have', 'has', 'had', 'there', 'here', 'just',
+  'also', 'very', 'really', 'like', 'okay', 'because', 'all', 'some', 'any', 'one', 'going', 'get', 'got', 'know', 'see',
+  'want', 'well', 'now', 'right', 'yeah', 'yes', 'let', "let's", "it's", "that's", "we're", "you're", "they're", "don't",
+]);
+
+function bareWord(text: string) {
+  return text.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}'’]+$/gu, '').replace(/’/g, "'");
+}
+
+function endsSentence(text: string) {
+  if (!TERMINAL_PUNCTUATION.test(text)) return false;
+  const bare = bareWord(text);
+  // Titles such as "Dr." and initials such as "J." or "e.g."
+  return !ABBREVIATIONS.has(bare) && !/^(\p{L}\.)+$/u.test(text.replace(/["'”’)\]]+$/u, ''));
+}
+
+function isQuestion(words: TranscriptWord[]) {
+  const [first, second] = words.map((word) => bareWord(word.text));
+  return (QUESTION_WORDS.has(first) && AUXILIARIES.has(second)) || (AUXILIARIES.has(first) && SUBJECTS.has(second));
+}
+
+function capitalize(text: string) {
+  return text.replace(/\p{L}/u, (letter) => letter.toUpperCase());
+}
+
+function toSentence(words: TranscriptWord[]): FormattedSentence {
+  return { start: words[0].start, end: words[words.length - 1].end, words };
+}
+
+// Splits at the recognizer's own sentence endings, at speaker changes and at
+// pauses, then punctuates and capitalizes each sentence
+function splitSentences(transcript: Transcript, words: TranscriptWord[]) {
+  const endings = SENTENCE_ENDINGS[transcript.language ?? ''] ?? LATIN_ENDINGS;
+  // The word lists below are English
+  const isEnglish = transcript.translated || transcript.language === 'en' || transcript.language === null;
+  const sentences: { speaker: number | null; words: TranscriptWord[] }[] = [];
+  let current: TranscriptWord[] = [];
+
+  words.forEach((word, index) => {
+    const { speaker } = word;
+    current.push(word);
+    const next = words[index + 1];
+    const pause = next ? next.start - word.end : Infinity;
+    const ends = !next
+      || next.speaker !== speaker
+      || endsSentence(word.text)
+      || (pause >= SENTENCE_PAUSE && current.length >= MIN_SENTENCE_WORDS);
+    if (ends) {
+      sentences.push({ speaker, words: current });
+      current = [];
+    }
+  });
+
+  return sentences.map(({ speaker, words: sentenceWords }) => {
+    const formatted = sentenceWords.map((word, index) => {
+      let text = isEnglish ? word.text.replace(/^i(?=(['’](m|ve|ll|d))?[^\p{L}]*$)/u, 'I') : word.text;
+      if (index === 0) {
+        text = capitalize(text);
+      } else if (isEnglish && word.offset === 0 && /^\p{Lu}\p{Ll}*$/u.test(text.replace(/[^\p{L}]+$/u, '')) && FUNCTION_WORDS.has(bareWord(text))) {
+        // A capital the recognizer added because a new segment began mid-sentence
+        text = text.toLowerCase();
+      }
+      return { ...word, text };
+    });
+
+    const last = formatted[formatted.length - 1];
+    if (!TERMINAL_PUNCTUATION.test(last.text)) {
+      const ending = isEnglish && isQuestion(formatted) ? endings.question : endings.statement;
+      last.text = last.text.replace(TRAILING_PAUSE_PUNCTUATION, '') + ending;
+    }
+    return { speaker, sentence: toSentence(formatted) };
+  });
+}
+
+// Content words and their counts, with plurals folded together
+function topicWords(sentences: FormattedSentence[]) {
+  const counts = new Map<string, number>();
+  sentences.forEach((sentence) => {
+    sentence.words.forEach((word) => {
+      const bare = bareWord(word.text).replace(/'s$/, '');
+      if (bare.length < 3 || FUNCTION_WORDS.has(bare)) return;
+      const stem = bare.endsWith('ies') ? `${bare.slice(0, -3)}y` : bare.endsWith('s') && !bare.endsWith('ss') ? bare.slice(0, -1) : bare;
+      counts.set(stem, (counts.get(stem) ?? 0) + 1);
+    });
+  });
+  return counts;
+}
+
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>) {
+  let dot = 0;
+  a.forEach((count, word) => {
+    dot += count * (b.get(word) ?? 0);
+  });
+  const norm = (counts: Map<string, number>) => Math.sqrt([...counts.values()].reduce((sum, count) => sum + count * count, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+// Sentence indices that open a new topic: the deepest dips in vocabulary
+// overlap between the sentences before and after, as in TextTiling, and
+// sentences that announce a new topic
+function findTopicShifts(sentences: FormattedSentence[]) {
+  const shifts = new Set<number>();
+  const scores = sentences.map((_, index) => (index === 0
+    ? 0
+    : cosineSimilarity(
+      topicWords(sentences.slice(Math.max(0, index - COHESION_WINDOW), index)),
+      topicWords(sentences.slice(index, index + COHESION_WINDOW)),
+    )));
+
+  const depths = new Map<number, number>();
+  for (let index = 1; index < sentences.length; index++) {
+    const score = scores[index];
+    if ((index > 1 && scores[index - 1] < score) || (index + 1 < sentences.length && scores[index + 1] < score)) continue;
+    let left = score;
+    for (let i = index - 1; i >= 1 && scores[i] >= left; i--) left = scores[i];
+    let right = score;
+    for (let i = index + 1; i < sentences.length && scores[i] >= right; i++) right = scores[i];
+    depths.set(index, left - score + (right - score));
+  }
+
+  const values = [...depths.values()];
+  if (values.length > 0) {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const deviation = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+    depths.forEach((depth, index) => {
+      if (depth > 0 && depth >= mean + deviation / 2) shifts.add(index);
+    });
+  }
+
+  sentences.forEach((sentence, index) => {
+    const opening = sentence.words.map((word) => word.text).join(' ');
+    if (TOPIC_CUES.some((cue) => cue.test(opening))) shifts.add(index);
+  });
+  return shifts;
+}
+
+// Lays out `words`, all of the transcript's words unless e.g. a clean read
+// has removed some
+export function formatTranscript(
+  transcript: Transcript,
+  words: TranscriptWord[] = getTranscriptWords(transcript),
+): FormattedParagraph[] {
+  const sentences = splitSentences(transcript, words);
+  const shifts = findTopicShifts(sentences.map(({ sentence }) => sentence));
+  const paragraphs: FormattedParagraph[] = [];
+  let wordCount = 0;
+
+  sentences.forEach(({ speaker, sentence }, index) => {
+    const current = paragraphs[paragraphs.length - 1];
+    const startsParagraph = !current
+      || current.speaker !== speaker
+      || sentence.start - current.end >= PARAGRAPH_PAUSE
+      || wordCount >= MAX_PARAGRAPH_WORDS
+      || (shifts.has(index) && current.sentences.length >= MIN_PARAGRAPH_SENTENCES);
+
+    if (startsParagraph) {
+      paragraphs.push({ start: sentence.start, end: sentence.end, speaker, sentences: [sentence] });
+      wordCount = sentence.words.length;
+    } else {
+      current.sentences.push(sentence);
+      current.end = sentence.end;
+      wordCount += sentence.words.length;
+    }
+  });
+  return paragraphs;
+}
+
+export function paragraphText(paragraph: FormattedParagraph) {
+  return paragraph.sentences.map((sentence) => sentence.words.map((word) => word.text).join(' ')).join(' ');
+}
+
+export function formattedToText(
+  transcript: Transcript,
+  paragraphs: FormattedParagraph[],
+  options: FormattedTextOptions = {},
+) {
+  const labelled = options.speakerLabels && Boolean(transcript.speakers?.length);
+  return paragraphs
+    .map((paragraph, index) => {
+      const text = paragraphText(paragraph);
+      // Only a paragraph that changes speaker is labelled
+      const changesSpeaker = index === 0 || paragraphs[index - 1].speaker !== paragraph.speaker;
+      return labelled && changesSpeaker ? `${getSpeakerName(transcript, paragraph.speaker)}: ${text}` : text;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findSeam,
+  longestCommonSubsequence,
+  mergeWindows,
+  planWindows,
+  spreadWords,
+  type TimedText,
+  type TimedWord,
+  type TranscribedWindow,
+} from '@/lib/transcript-merge';
+
+// Words one second apart from `start`, all in segment 0
+function timedWords(start: number, text: string): TimedWord[] {
+  return text.split(' ').map((word, index) => ({
+    start: start + index,
+    end: start + index + 1,
+    text: word,
+    confidence: null,
+    segment: 0,
+  }));
+}
+
+function window(start: number, end: number, segments: TimedText[]): TranscribedWindow {
+  return { start, end, segments };
+}
+
+// One segment per window, with a word per second from `start`
+function spokenWindow(start: number, end: number, text: string): TranscribedWindow {
+  const words = timedWords(start, text).map(({ segment, ...word }) => word);
+  return window(start, end, [{ start, end: words[words.length - 1].end, text, words }]);
+}
+
+function mergedText(segments: TimedText[]) {
+  return segments.map((segment) => segment.text).join(' ');
+}
+
+describe('planWindows', () => {
+  it('covers short input with a single window', () => {
+    expect(planWindows(10, 1)).toEqual([{ offset: 0, length: 10 }]);
+  });
+
+  it('plans one empty window for empty input', () => {
+    expect(planWindows(0, 1)).toEqual([{ offset: 0, length: 0 }]);
+  });
+
+  it('overlaps windows and cuts the last one short', () => {
+    expect(planWindows(60, 1)).toEqual([
+      { offset: 0, length: 30 },
+      { offset: 25, length: 30 },
+      { offset: 50, length: 10 },
+    ]);
+  });
+
+  it('adds no window for audio already heard in the last overlap', () => {
+    expect(planWindows(55, 1)).toEqual([
+      { offset: 0, length: 30 },
+      { offset: 25, length: 30 },
+    ]);
+  });
+
+  it('scales with the sample rate', () => {
+    expect(planWindows(45 * 16000, 16000)).toEqual([
+      { offset: 0, length: 30 * 16000 },
+      { offset: 25 * 16000, length: 20 * 16000 },
+    ]);
+  });
+});
+
+describe('longestCommonSubsequence', () => {
+  it('pairs the indices of a longest common subsequence', () => {
+    expect(longestCommonSubsequence(['a', 'b', 'c', 'd'], ['b', 'x', 'd'])).toEqual([[1, 0], [3, 2]]);
+  });
+
+  it('returns nothing for empty or disjoint input', () => {
+    expect(longestCommonSubsequence([], ['a'])).toEqual([]);
+    expect(longestCommonSubsequence(['a'], ['b'])).toEqual([]);
+  });
+
+  it('never matches empty strings', () => {
+    expect(longestCommonSubsequence(['', 'a'], ['', 'a'])).toEqual([[1, 1]]);
+  });
+
+  it('keeps repeated words in order', () => {
+    expect(longestCommonSubsequence(['very', 'very', 'hot'], ['very', 'very'])).toEqual([[0, 0], [1, 1]]);
+  });
+});
+
+describe('spreadWords', () => {
+  it('divides the time by word length', () => {
+    expect(spreadWords(0, 3, ['a', 'bb'])).toEqual([
+      { start: 0, end: 1, text: 'a', confidence: null },
+      { start: 1, end: 3, text: 'bb', confidence: null },
+    ]);
+  });
+});
+
+describe('findSeam', () => {
+  it('cuts in the middle of the words both windows heard', () => {
+    const previous = timedWords(0, 'one two three four five');
+    const next = timedWords(2, 'three four five six');
+    // Aligned: three, four, five. The middle pair is "four".
+    expect(findSeam(previous, next, 2, 5)).toEqual([4, 2]);
+  });
+
+  it('keeps both copies of a word that was really said twice', () => {
+    const previous = timedWords(0, 'it is very very');
+    const next = timedWords(2, 'very very hot');
+    const [cut, resume] = findSeam(previous, next, 2, 4);
+    const text = [...previous.slice(0, cut), ...next.slice(resume)].map((word) => word.text).join(' ');
+    expect(text).toBe('it is very very hot');
+  });
+
+  it('splits the overlap at its midpoint when nothing lines up', () => {
+    const previous = timedWords(0, 'a b c d');
+    const next = timedWords(2, 'x y z');
+    // Overlap 2-4, midpoint 3: previous keeps a b c, next resumes at y
+    expect(findSeam(previous, next, 2, 4)).toEqual([3, 1]);
+  });
+
+  it('keeps every word when the next window heard nothing', () => {
+    expect(findSeam(timedWords(0, 'a b c d'), [], 2, 4)).toEqual([4, 0]);
+  });
+
+  it('keeps every word when the previous window heard nothing in the overlap', () => {
+    expect(findSeam(timedWords(0, 'a b'), timedWords(3, 'c d'), 2, 4)).toEqual([2, 0]);
+  });
+});
+
+describe('mergeWindows', () => {
+  it('returns nothing for no windows', () => {
+    expect(mergeWindows([])).toEqual([]);
+  });
+
+  it('passes a single window through', () => {
+    expect(mergedText(mergeWindows([spokenWindow(0, 5, 'hello there')]))).toBe('hello there');
+  });
+
+  it('drops the words heard twice in an overlap', () => {
+    const merged = mergeWindows([
+      spokenWindow(0, 6, 'the enzyme binds its substrate here'),
+      spokenWindow(3, 9, 'its substrate here at the site'),
+    ]);
+    expect(mergedText(merged)).toBe('the enzyme binds its substrate here at the site');
+  });
+
+  it('keeps a real repeat that straddles the seam', () => {
+    const merged = mergeWindows([
+      spokenWindow(0, 4, 'it is very very'),
+      spokenWindow(2, 6, 'very very hot now'),
+    ]);
+    expect(mergedText(merged)).toBe('it is very very hot now');
+  });
+
+  it('joins windows that do not overlap', () => {
+    const merged = mergeWindows([
+      spokenWindow(0, 3, 'first part'),
+      spokenWindow(3, 6, 'second part'),
+    ]);
+    expect(mergedText(merged)).toBe('first part second part');
+  });
+
+  it('loses nothing next to an empty window', () => {
+    const merged = mergeWindows([
+      spokenWindow(0, 6, 'one two three four five six'),
+      window(4, 10, []),
+      spokenWindow(8, 14, 'nine ten'),
+    ]);
+    expect(mergedText(merged)).toBe('one two three four five six nine ten');
+  });
+
+  it('trims segment timings to the words kept', () => {
+    const merged = mergeWindows([
+      spokenWindow(0, 4, 'a b c d'),
+      spokenWindow(2, 6, 'c d e f'),
+    ]);
+    expect(merged.map(({ start, end }) => [start, end])).toEqual([[0, 4], [4, 6]]);
+  });
+
+  it('times words spread over segments that were not timed word by word', () => {
+    const merged = mergeWindows([window(0, 4, [{ start: 0, end: 4, text: 'ab cd' }])]);
+    expect(merged[0].words?.map((word) => [word.start, word.end])).toEqual([[0, 2], [2, 4]]);
+  });
+});
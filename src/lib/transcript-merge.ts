@@ -0,0 +1,187 @@
+// Splits long audio into overlapping Whisper windows and stitches the
+// per-window results back together. Pure functions, no model or DOM access.
+
+export interface WordTiming {
+  start: number;
+  end: number;
+  text: string;
+  // Probability the recognizer gave the word, 0-1; null when not known
+  confidence: number | null;
+}
+
+export interface TimedText {
+  // Absolute position in the audio, in seconds
+  start: number;
+  end: number;
+  text: string;
+  // Words of the text, when the recognizer timed them
+  words?: WordTiming[];
+}
+
+export interface TranscribedWindow {
+  start: number;
+  end: number;
+  segments: TimedText[];
+}
+
+export interface WindowPlan {
+  // Sample offsets into the audio
+  offset: number;
+  length: number;
+}
+
+export interface TimedWord extends WordTiming {
+  // Which segment of its window the word came from
+  segment: number;
+}
+
+// Whisper only sees 30 seconds at a time
+export const WINDOW_LENGTH_S = 30;
+// Audio shared by consecutive windows, so words cut at an edge are heard whole by one of them
+export const WINDOW_OVERLAP_S = 5;
+
+export function planWindows(sampleCount: number, sampleRate: number): WindowPlan[] {
+  const windowLength = WINDOW_LENGTH_S * sampleRate;
+  const jump = (WINDOW_LENGTH_S - WINDOW_OVERLAP_S) * sampleRate;
+  const overlap = WINDOW_OVERLAP_S * sampleRate;
+  const windows: WindowPlan[] = [];
+
+  for (let offset = 0; offset === 0 || offset + overlap < sampleCount; offset += jump) {
+    windows.push({ offset, length: Math.min(windowLength, sampleCount - offset) });
+  }
+  return windows;
+}
+
+function normalizeWord(word: string) {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+}
+
+// Spreads a stretch of time over words in proportion to their length
+export function spreadWords(start: number, end: number, words: string[]): WordTiming[] {
+  const totalChars = words.reduce((sum, word) => sum + word.length, 0) || 1;
+  const duration = Math.max(0, end - start);
+  let time = start;
+
+  return words.map((word) => {
+    const wordDuration = (duration * word.length) / totalChars;
+    const timed = { start: time, end: time + wordDuration, text: word, confidence: null };
+    time += wordDuration;
+    return timed;
+  });
+}
+
+// Segments the recognizer did not time word by word are spread evenly
+function toWords(segments: TimedText[]): TimedWord[] {
+  return segments.flatMap((segment, index) => {
+    const words = segment.words ?? spreadWords(segment.start, segment.end, segment.text.split(/\s+/).filter(Boolean));
+    return words.map((word) => ({ ...word, segment: index }));
+  });
+}
+
+// Pairs of indices [i, j] where a[i] and b[j] form a longest common
+// subsequence. Empty strings never match.
+export function longestCommonSubsequence(a: string[], b: string[]): [number, number][] {
+  const matches = (i: number, j: number) => a[i] !== '' && a[i] === b[j];
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = matches(i, j)
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (matches(i, j)) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+// Where to cut the previous words and resume with the next ones: [keep previous
+// up to this index, exclusive; resume next from this index]
+export function findSeam(previous: TimedWord[], next: TimedWord[], overlapStart: number, overlapEnd: number): [number, number] {
+  // Only words heard inside the shared audio can be duplicates
+  const previousStart = previous.findIndex((word) => word.end > overlapStart);
+  const nextEnd = next.findIndex((word) => word.start >= overlapEnd);
+  const previousTail = previousStart === -1 ? [] : previous.slice(previousStart);
+  const nextHead = nextEnd === -1 ? next : next.slice(0, nextEnd);
+  // When one window heard nothing in the shared audio, e.g. it came back
+  // empty, there is nothing to double and the other's words all stay
+  if (previousTail.length === 0 || nextHead.length === 0) return [previous.length, 0];
+
+  const pairs = longestCommonSubsequence(previousTail.map((w) => normalizeWord(w.text)), nextHead.map((w) => normalizeWord(w.text)));
+
+  if (pairs.length > 0) {
+    // Cut in the middle of the aligned run, where both windows heard the audio best
+    const [i, j] = pairs[Math.floor(pairs.length / 2)];
+    return [previousStart + i + 1, j + 1];
+  }
+
+  // Nothing lines up, so trust each window for its half of the overlap
+  const midpoint = (overlapStart + overlapEnd) / 2;
+  const cutPrevious = previous.findIndex((word) => word.start >= midpoint);
+  const resumeNext = next.findIndex((word) => word.start >= midpoint);
+  return [cutPrevious === -1 ? previous.length : cutPrevious, resumeNext === -1 ? next.length : resumeNext];
+}
+
+// Regroups words into their original segments, with timings trimmed to the kept words
+function toSegments(words: TimedWord[]): TimedText[] {
+  const segments: TimedText[] = [];
+  let current: { segment: number; words: WordTiming[] } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const kept = current.words;
+    segments.push({
+      start: kept[0].start,
+      end: kept[kept.length - 1].end,
+      text: kept.map((word) => word.text).join(' '),
+      words: kept,
+    });
+  };
+
+  for (const { segment, ...word } of words) {
+    if (current && current.segment === segment) {
+      current.words.push(word);
+    } else {
+      finish();
+      current = { segment, words: [word] };
+    }
+  }
+  finish();
+  return segments;
+}
+
+export function mergeWindows(windows: TranscribedWindow[]): TimedText[] {
+  const merged: TimedText[] = [];
+  let previous: TimedWord[] = [];
+  let previousEnd = 0;
+
+  windows.forEach((transcribed, index) => {
+    const words = toWords(transcribed.segments);
+
+    if (index === 0) {
+      previous = words;
+    } else {
+      const [cut, resume] = findSeam(previous, words, transcribed.start, previousEnd);
+      merged.push(...toSegments(previous.slice(0, cut)));
+      previous = words.slice(resume);
+    }
+    previousEnd = transcribed.end;
+  });
+
+  merged.push(...toSegments(previous));
+  return merged;
+}
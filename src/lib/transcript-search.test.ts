@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import type { Transcript } from '@/lib/transcript';
+import { applyCorrections } from '@/lib/transcript-editing';
+import { EMPTY_SEARCH, replaceMatches, searchTranscript, type SearchOptions } from '@/lib/transcript-search';
+
+function transcriptOf(...texts: string[]): Transcript {
+  return {
+    segments: texts.map((text, index) => ({ start: index * 10, end: index * 10 + 10, text })),
+    language: 'en',
+    translated: false,
+    duration: texts.length * 10,
+  };
+}
+
+function search(transcript: Transcript, options: Partial<SearchOptions>) {
+  return searchTranscript(transcript, { ...EMPTY_SEARCH, ...options });
+}
+
+// The segment texts after replacing every match
+function replaceAll(transcript: Transcript, options: Partial<SearchOptions>) {
+  const { matches } = search(transcript, options);
+  return applyCorrections(transcript, replaceMatches(transcript, matches)).segments.map((segment) => segment.text);
+}
+
+describe('searchTranscript', () => {
+  it('finds nothing for an empty query', () => {
+    expect(search(transcriptOf('anything'), { query: '' })).toEqual({ matches: [], error: null });
+  });
+
+  it('ignores case unless asked not to', () => {
+    const transcript = transcriptOf('Enzyme and enzyme');
+    expect(search(transcript, { query: 'enzyme' }).matches.map((match) => match.from)).toEqual([0, 11]);
+    expect(search(transcript, { query: 'enzyme', caseSensitive: true }).matches.map((match) => match.from)).toEqual([11]);
+  });
+
+  it('takes the query literally outside regex mode', () => {
+    expect(search(transcriptOf('costs $5 (about) or 5'), { query: '$5 (' }).matches).toHaveLength(1);
+  });
+
+  it('matches whole words only, including beyond ASCII', () => {
+    const transcript = transcriptOf('cat catalog bobcat cat_1 café cat');
+    expect(search(transcript, { query: 'cat', wholeWord: true }).matches.map((match) => match.from)).toEqual([0, 30]);
+    expect(search(transcriptOf('café cafés'), { query: 'café', wholeWord: true }).matches).toHaveLength(1);
+  });
+
+  it('reports an invalid regular expression instead of throwing', () => {
+    const result = search(transcriptOf('text'), { query: '(unclosed', regex: true });
+    expect(result.matches).toEqual([]);
+    expect(result.error).toBeTruthy();
+  });
+
+  it('skips empty regex matches', () => {
+    expect(search(transcriptOf('abc'), { query: 'x*', regex: true }).matches).toEqual([]);
+  });
+
+  it('never matches across segments', () => {
+    expect(search(transcriptOf('the Krebs', 'cycle'), { query: 'Krebs cycle' }).matches).toEqual([]);
+  });
+
+  it('times a match by the word it falls in', () => {
+    const transcript: Transcript = {
+      ...transcriptOf(''),
+      segments: [{
+        start: 0,
+        end: 3,
+        text: 'one two three',
+        words: [
+          { start: 0, end: 1, text: 'one', confidence: null },
+          { start: 1, end: 2, text: 'two', confidence: null },
+          { start: 2, end: 3, text: 'three', confidence: null },
+        ],
+      }],
+    };
+    expect(search(transcript, { query: 'hree' }).matches[0].time).toBe(2);
+  });
+});
+
+describe('replacement', () => {
+  it('inserts the replacement literally outside regex mode', () => {
+    expect(replaceAll(transcriptOf('price is ten'), { query: 'ten', replacement: '$& $1 $$' })).toEqual(['price is $& $1 $$']);
+  });
+
+  it('expands numbered and named groups, $& and $$', () => {
+    const transcript = transcriptOf('Smith, John');
+    expect(replaceAll(transcript, { query: '(\\w+), (\\w+)', replacement: '$2 $1', regex: true })).toEqual(['John Smith']);
+    expect(replaceAll(transcript, { query: '(?<last>\\w+), (?<first>\\w+)', replacement: '$<first> $<last>', regex: true }))
+      .toEqual(['John Smith']);
+    expect(replaceAll(transcript, { query: 'John', replacement: '[$&] $$', regex: true })).toEqual(['Smith, [John] $']);
+  });
+
+  it('leaves a reference to a missing group as written', () => {
+    expect(replaceAll(transcriptOf('ab'), { query: '(a)', replacement: '$1$2', regex: true })).toEqual(['a$2b']);
+  });
+
+  it('replaces every match in a segment in one correction', () => {
+    const transcript = transcriptOf('the the end', 'the start');
+    const { matches } = search(transcript, { query: 'the', wholeWord: true, replacement: 'a' });
+    const corrections = replaceMatches(transcript, matches);
+    expect(corrections.map((correction) => correction.after)).toEqual(['a a end', 'a start']);
+  });
+
+  it('makes no correction where the text stays the same', () => {
+    const transcript = transcriptOf('same');
+    const { matches } = search(transcript, { query: 'same', replacement: 'same' });
+    expect(replaceMatches(transcript, matches)).toEqual([]);
+  });
+});
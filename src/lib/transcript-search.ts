@@ -0,0 +1,123 @@
+import type { Transcript } from '@/lib/transcript';
+import { correctSegment, type TranscriptCorrection } from '@/lib/transcript-editing';
+
+// Find and replace over the text of a transcript's segments. Matches never
+// span segments, so every replacement stays inside one timestamped segment.
+
+export interface SearchOptions {
+  query: string;
+  replacement: string;
+  // Treat the query as a regular expression, with $1, $<name> and $& in the replacement
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchMatch {
+  segmentIndex: number;
+  // Character range in the segment text
+  from: number;
+  to: number;
+  text: string;
+  replacement: string;
+  // Where the match is heard, from its word timing when known
+  time: number;
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  // Why the query could not be used, e.g. an invalid regular expression
+  error: string | null;
+}
+
+export const EMPTY_SEARCH: SearchOptions = {
+  query: '',
+  replacement: '',
+  regex: false,
+  caseSensitive: false,
+  wholeWord: false,
+};
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildPattern(options: SearchOptions) {
+  const source = options.regex ? options.query : escapeRegExp(options.query);
+  const bounded = options.wholeWord ? `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])` : source;
+  return new RegExp(bounded, options.caseSensitive ? 'gu' : 'giu');
+}
+
+// The replacement for one match, expanding $ references as String.replace does
+function expandReplacement(match: RegExpMatchArray, options: SearchOptions) {
+  if (!options.regex) return options.replacement;
+  return options.replacement.replace(/\$(\$|&|\d{1,2}|<[^>]*>)/g, (reference, name: string) => {
+    if (name === '$') return '$';
+    if (name === '&') return match[0];
+    if (name.startsWith('<')) return match.groups?.[name.slice(1, -1)] ?? '';
+    return Number(name) < match.length ? match[Number(name)] ?? '' : reference;
+  });
+}
+
+// Start time of the word at a character offset of a segment's text
+function findMatchTime(transcript: Transcript, segmentIndex: number, offset: number) {
+  const segment = transcript.segments[segmentIndex];
+  if (!segment.words) return segment.start;
+
+  let position = 0;
+  for (const word of segment.words) {
+    position += word.text.length + 1;
+    if (offset < position) return word.start;
+  }
+  return segment.start;
+}
+
+export function searchTranscript(transcript: Transcript, options: SearchOptions): SearchResult {
+  if (!options.query) return { matches: [], error: null };
+
+  let pattern: RegExp;
+  try {
+    pattern = buildPattern(options);
+  } catch (error) {
+    return { matches: [], error: error instanceof Error ? error.message : 'Invalid regular expression' };
+  }
+
+  const matches: SearchMatch[] = [];
+  transcript.segments.forEach((segment, segmentIndex) => {
+    for (const match of segment.text.matchAll(pattern)) {
+      // An empty match would replace nothing and highlight nothing
+      if (match[0].length === 0 || match.index === undefined) continue;
+      matches.push({
+        segmentIndex,
+        from: match.index,
+        to: match.index + match[0].length,
+        text: match[0],
+        replacement: expandReplacement(match, options),
+        time: findMatchTime(transcript, segmentIndex, match.index),
+      });
+    }
+  });
+  return { matches, error: null };
+}
+
+// One correction per segment with matches, to be applied as a single step
+export function replaceMatches(transcript: Transcript, matches: SearchMatch[]): TranscriptCorrection[] {
+  const bySegment = new Map<number, SearchMatch[]>();
+  matches.forEach((match) => {
+    bySegment.set(match.segmentIndex, [...(bySegment.get(match.segmentIndex) ?? []), match]);
+  });
+
+  const corrections: TranscriptCorrection[] = [];
+  bySegment.forEach((segmentMatches, segmentIndex) => {
+    const { text } = transcript.segments[segmentIndex];
+    let replaced = '';
+    let position = 0;
+    segmentMatches.forEach((match) => {
+      replaced += text.slice(position, match.from) + match.replacement;
+      position = match.to;
+    });
+    const correction = correctSegment(transcript, segmentIndex, replaced + text.slice(position));
+    if (correction) corrections.push(correction);
+  });
+  return corrections;
+}
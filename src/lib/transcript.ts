@@ -0,0 +1,233 @@
+import type { TranscriptCorrection } from '@/lib/transcript-editing';
+import type { WordTiming } from '@/lib/transcript-merge';
+import type { TranscriptionChunk } from '@/workers/transcription-protocol';
+
+export interface TranscriptSegment {
+  // Position in the audio, in seconds
+  start: number;
+  end: number;
+  text: string;
+  // 0-1, when the recognizer reports it
+  confidence?: number;
+  // Timed words of the text, when the recognizer reports them
+  words?: WordTiming[];
+  // Index into Transcript.speakers, once speakers have been identified
+  speaker?: number;
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  // Whisper language code of the audio, when known
+  language: string | null;
+  // Whether the text was translated to English rather than transcribed
+  translated: boolean;
+  // Length of the source audio, in seconds
+  duration: number;
+  // Display names of the speakers found by diarization
+  speakers?: string[];
+  // Hand corrections in effect, oldest first
+  corrections?: TranscriptCorrection[];
+}
+
+// Words the recognizer was less sure of than this are flagged for review
+export const LOW_CONFIDENCE = 0.5;
+
+// Consecutive segments by the same speaker
+export interface SpeakerTurn {
+  speaker: number | null;
+  segments: TranscriptSegment[];
+  // Index of the first segment in the transcript
+  startIndex: number;
+}
+
+// A word of a segment, with where it sits there, so that reworded or
+// filtered words can still be traced back to what the recognizer heard
+export interface TranscriptWord extends WordTiming {
+  // The word as the recognizer gave it
+  raw: string;
+  segmentIndex: number;
+  // Index into the segment's words, or -1 when the segment has none
+  wordIndex: number;
+  // Character offset of the raw word in the segment text
+  offset: number;
+  speaker: number | null;
+}
+
+export interface UncertainWord {
+  segmentIndex: number;
+  wordIndex: number;
+  start: number;
+}
+
+interface TranscriptTextOptions {
+  // Start each speaker turn on a new paragraph with the speaker's name
+  speakerLabels?: boolean;
+}
+
+interface CreateTranscriptOptions {
+  language: string | null;
+  translated: boolean;
+  duration: number;
+}
+
+// Mean confidence of the words the recognizer rated, or null if it rated none
+export function averageConfidence(words: WordTiming[]) {
+  const rated = words.map((word) => word.confidence).filter((value) => value !== null);
+  return rated.length > 0 ? rated.reduce((sum, value) => sum + value, 0) / rated.length : null;
+}
+
+export function createTranscript(chunks: TranscriptionChunk[], options: CreateTranscriptOptions): Transcript {
+  const segments = chunks
+    .map((chunk): TranscriptSegment => {
+      const [start, end] = chunk.timestamp;
+      const confidence = averageConfidence(chunk.words ?? []);
+      return {
+        start: start ?? 0,
+        // Whisper leaves the final timestamp open when the audio ends mid-sentence
+        end: end ?? options.duration,
+        text: chunk.text.trim(),
+        ...(confidence !== null && { confidence }),
+        ...(chunk.words?.length && { words: chunk.words }),
+      };
+    })
+    .filter((segment) => segment.text.length > 0);
+
+  return { segments, ...options };
+}
+
+export function getSpeakerTurns(transcript: Transcript): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  transcript.segments.forEach((segment, index) => {
+    const speaker = segment.speaker ?? null;
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === speaker) {
+      last.segments.push(segment);
+    } else {
+      turns.push({ speaker, segments: [segment], startIndex: index });
+    }
+  });
+  return turns;
+}
+
+export function getSpeakerName(transcript: Transcript, speaker: number | null) {
+  if (speaker === null) return 'Unknown speaker';
+  return transcript.speakers?.[speaker] || `Speaker ${speaker + 1}`;
+}
+
+export function transcriptToText(transcript: Transcript | null, options: TranscriptTextOptions = {}) {
+  if (!transcript) return '';
+  if (options.speakerLabels && transcript.speakers?.length) {
+    return getSpeakerTurns(transcript)
+      .map((turn) => `${getSpeakerName(transcript, turn.speaker)}: ${turn.segments.map((segment) => segment.text).filter(Boolean).join(' ')}`)
+      .join('\n\n');
+  }
+  // Segments can be left empty by corrections
+  return transcript.segments.map((segment) => segment.text).filter(Boolean).join(' ').trim();
+}
+
+// The segments with their timing, words and speaker names, for other tools.
+// Segments left empty, e.g. by corrections, are left out.
+export function transcriptToJson(transcript: Transcript) {
+  return JSON.stringify({
+    language: transcript.language,
+    translated: transcript.translated,
+    duration: transcript.duration,
+    segments: transcript.segments
+      .filter((segment) => segment.text.length > 0)
+      .map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+        speaker: transcript.speakers?.length ? getSpeakerName(transcript, segment.speaker ?? null) : null,
+        confidence: segment.confidence ?? null,
+        words: segment.words ?? null,
+      })),
+  }, null, 2);
+}
+
+// Every word in speaking order. Segments the recognizer did not time word by
+// word have their duration spread over their words by length.
+export function getTranscriptWords(transcript: Transcript): TranscriptWord[] {
+  return transcript.segments.flatMap((segment, segmentIndex) => {
+    const speaker = segment.speaker ?? null;
+    if (segment.words) {
+      // Words are joined by single spaces, so each starts one past the end of the last
+      let offset = 0;
+      return segment.words.map((word, wordIndex) => {
+        const located = { ...word, raw: word.text, segmentIndex, wordIndex, offset, speaker };
+        offset += word.text.length + 1;
+        return located;
+      });
+    }
+
+    const matches = [...segment.text.matchAll(/\S+/g)];
+    const totalChars = matches.reduce((sum, match) => sum + match[0].length, 0) || 1;
+    const duration = Math.max(0, segment.end - segment.start);
+    let time = segment.start;
+    return matches.map((match) => {
+      const wordDuration = (duration * match[0].length) / totalChars;
+      const located = {
+        start: time,
+        end: time + wordDuration,
+        text: match[0],
+        raw: match[0],
+        confidence: null,
+        segmentIndex,
+        wordIndex: -1,
+        offset: match.index ?? 0,
+        speaker,
+      };
+      time += wordDuration;
+      return located;
+    });
+  });
+}
+
+// Indices of the doubtful words, in the order they are spoken
+export function findUncertainWords(transcript: Transcript) {
+  const uncertain: UncertainWord[] = [];
+  transcript.segments.forEach((segment, segmentIndex) => {
+    segment.words?.forEach((word, wordIndex) => {
+      if (word.confidence !== null && word.confidence < LOW_CONFIDENCE) {
+        uncertain.push({ segmentIndex, wordIndex, start: word.start });
+      }
+    });
+  });
+  return uncertain;
+}
+
+export function countWords(text: string) {
+  return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+// Formats seconds as m:ss, or h:mm:ss for recordings over an hour
+export function formatTimestamp(seconds: number) {
+  const totalSeconds = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const paddedSeconds = secs.toString().padStart(2, '0');
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${paddedSeconds}`;
+  }
+  return `${minutes}:${paddedSeconds}`;
+}
+
+// Index of the segment playing at `time`, or -1 before the first one starts
+export function findSegmentAt(segments: { start: number }[], time: number) {
+  let low = 0;
+  let high = segments.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (segments[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,100 @@
+import { TRANSCRIPTION_CHECKPOINTS_STORE, openDatabase, promisifyRequest, transactionDone } from '@/lib/database';
+import type { TranscribedWindow } from '@/lib/transcript-merge';
+import type { PreprocessOptions } from '@/lib/audio-preprocessing';
+import type { ModelSelection } from '@/lib/transcription-settings';
+import type { TranscribeOptions } from '@/workers/transcription-protocol';
+
+// Saves each finished window of a file transcription, keyed by a hash of the
+// file's contents, so selecting the same file again after a reload picks up
+// from the last finished window.
+
+export interface TranscriptionCheckpoint {
+  fileHash: string;
+  // Model, options and preprocessing the windows were transcribed with; other settings start over
+  settingsKey: string;
+  windows: TranscribedWindow[];
+  languages: (string | null)[];
+  updatedAt: number;
+}
+
+// Bytes hashed at a time, so large files are never read into memory whole
+const HASH_SLICE_BYTES = 8 * 1024 * 1024;
+// Checkpoints nobody came back to are dropped after this long
+const CHECKPOINT_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// SHA-256 over the SHA-256 of each slice, which identifies the contents just
+// as well as a plain digest without needing the whole file at once
+export async function hashFile(file: Blob) {
+  const digests: Uint8Array[] = [];
+  for (let offset = 0; offset < file.size; offset += HASH_SLICE_BYTES) {
+    const slice = await file.slice(offset, offset + HASH_SLICE_BYTES).arrayBuffer();
+    digests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', slice)));
+  }
+
+  const combined = new Uint8Array(digests.length * 32);
+  digests.forEach((digest, index) => combined.set(digest, index * 32));
+  return `${file.size}-${toHex(await crypto.subtle.digest('SHA-256', combined))}`;
+}
+
+function getSettingsKey(model: ModelSelection, options: TranscribeOptions, preprocessing: PreprocessOptions) {
+  return JSON.stringify([
+    model.modelId,
+    model.quantized,
+    options.language,
+    options.task,
+    options.prompt,
+    preprocessing.skipSilence,
+    preprocessing.normalizeLoudness,
+  ]);
+}
+
+async function pruneCheckpoints(database: IDBDatabase) {
+  const transaction = database.transaction(TRANSCRIPTION_CHECKPOINTS_STORE, 'readwrite');
+  const store = transaction.objectStore(TRANSCRIPTION_CHECKPOINTS_STORE);
+  const checkpoints = await promisifyRequest<TranscriptionCheckpoint[]>(store.getAll());
+  const cutoff = Date.now() - CHECKPOINT_MAX_AGE_MS;
+
+  checkpoints
+    .filter((checkpoint) => checkpoint.updatedAt < cutoff)
+    .forEach((checkpoint) => store.delete(checkpoint.fileHash));
+  await transactionDone(transaction);
+}
+
+// The saved progress for this file and these settings, or an empty checkpoint
+// to fill in as the transcription runs
+export async function openCheckpoint(
+  file: Blob,
+  model: ModelSelection,
+  options: TranscribeOptions,
+  preprocessing: PreprocessOptions,
+): Promise<TranscriptionCheckpoint> {
+  const fileHash = await hashFile(file);
+  const settingsKey = getSettingsKey(model, options, preprocessing);
+  const database = await openDatabase();
+  await pruneCheckpoints(database);
+
+  const store = database.transaction(TRANSCRIPTION_CHECKPOINTS_STORE).objectStore(TRANSCRIPTION_CHECKPOINTS_STORE);
+  const saved = await promisifyRequest<TranscriptionCheckpoint | undefined>(store.get(fileHash));
+  if (saved?.settingsKey === settingsKey) {
+    return saved;
+  }
+  return { fileHash, settingsKey, windows: [], languages: [], updatedAt: Date.now() };
+}
+
+export async function saveCheckpoint(checkpoint: TranscriptionCheckpoint) {
+  const database = await openDatabase();
+  const transaction = database.transaction(TRANSCRIPTION_CHECKPOINTS_STORE, 'readwrite');
+  transaction.objectStore(TRANSCRIPTION_CHECKPOINTS_STORE).put({ ...checkpoint, updatedAt: Date.now() });
+  await transactionDone(transaction);
+}
+
+export async function deleteCheckpoint(fileHash: string) {
+  const database = await openDatabase();
+  const transaction = database.transaction(TRANSCRIPTION_CHECKPOINTS_STORE, 'readwrite');
+  transaction.objectStore(TRANSCRIPTION_CHECKPOINTS_STORE).delete(fileHash);
+  await transactionDone(transaction);
+}
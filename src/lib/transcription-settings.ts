@@ -0,0 +1,127 @@
+import { DEFAULT_FILLER_WORDS } from '@/lib/clean-read';
+import type { CourseVocabulary } from '@/lib/course-vocabulary';
+import { DEFAULT_SUBTITLE_OPTIONS, type SubtitleOptions } from '@/lib/subtitles';
+
+export type WhisperModelSize = 'tiny' | 'base' | 'small';
+
+export type WhisperTask = 'transcribe' | 'translate';
+
+export interface TranscriptionSettings {
+  modelSize: WhisperModelSize;
+  quantized: boolean;
+  // Whisper language code, or "auto" to let the model detect it
+  language: string;
+  task: WhisperTask;
+  // Transcribe recordings while they are being made
+  liveCaptions: boolean;
+  // Cut long silences from files before transcribing them
+  skipSilence: boolean;
+  // Even out quiet and loud passages before transcribing
+  normalizeLoudness: boolean;
+  courses: CourseVocabulary[];
+  // Course whose vocabulary biases and corrects transcripts, or null for none
+  courseId: string | null;
+  // Words and phrases a clean read leaves out
+  fillerWords: string[];
+  // Line and reading speed limits for SRT and WebVTT exports
+  subtitles: SubtitleOptions;
+}
+
+export interface ModelSelection {
+  modelId: string;
+  quantized: boolean;
+}
+
+export const MODEL_SIZES: { value: WhisperModelSize; label: string }[] = [
+  { value: 'tiny', label: 'Tiny (fastest)' },
+  { value: 'base', label: 'Base' },
+  { value: 'small', label: 'Small (most accurate)' },
+];
+
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+export const LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'fa', name: 'Persian' },
+  { code: 'ur', name: 'Urdu' },
+  { code: 'bn', name: 'Bengali' },
+  { code: 'ta', name: 'Tamil' },
+  { code: 'te', name: 'Telugu' },
+  { code: 'mr', name: 'Marathi' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'vi', name: 'Vietnamese' },
+  { code: 'id', name: 'Indonesian' },
+  { code: 'sw', name: 'Swahili' },
+];
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  modelSize: 'base',
+  quantized: true,
+  language: 'en',
+  task: 'transcribe',
+  liveCaptions: false,
+  skipSilence: false,
+  normalizeLoudness: false,
+  courses: [],
+  courseId: null,
+  fillerWords: DEFAULT_FILLER_WORDS,
+  subtitles: DEFAULT_SUBTITLE_OPTIONS,
+};
+
+const STORAGE_KEY = 'transcription-settings';
+
+export function loadTranscriptionSettings(): TranscriptionSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Ignoring invalid transcription settings:', error);
+  }
+  return DEFAULT_TRANSCRIPTION_SETTINGS;
+}
+
+export function saveTranscriptionSettings(settings: TranscriptionSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// English transcription uses the smaller, more accurate English-only checkpoints
+export function isEnglishOnly(settings: TranscriptionSettings) {
+  return settings.language === 'en' && settings.task === 'transcribe';
+}
+
+export function getModelSelection(settings: TranscriptionSettings): ModelSelection {
+  const suffix = isEnglishOnly(settings) ? '.en' : '';
+  return {
+    modelId: `Xenova/whisper-${settings.modelSize}${suffix}`,
+    quantized: settings.quantized,
+  };
+}
+
+export function isSameModel(a: ModelSelection | null, b: ModelSelection | null) {
+  return a?.modelId === b?.modelId && a?.quantized === b?.quantized;
+}
+
+export function getActiveVocabulary(settings: TranscriptionSettings) {
+  return settings.courses.find((course) => course.id === settings.courseId) ?? null;
+}
+
+export function getLanguageName(code: string | null) {
+  if (!code) return 'Unknown';
+  return LANGUAGES.find((language) => language.code === code)?.name ?? code;
+}
@@ -0,0 +1,232 @@
+import { WHISPER_SAMPLING_RATE } from '@/lib/audio';
+import { transcribeWithModel } from '@/lib/model-manager';
+import {
+  WINDOW_LENGTH_S,
+  WINDOW_OVERLAP_S,
+  mergeWindows,
+  planWindows,
+  type TranscribedWindow,
+} from '@/lib/transcript-merge';
+import type { ModelSelection } from '@/lib/transcription-settings';
+import type { TranscribeOptions, TranscriptionOutput } from '@/workers/transcription-protocol';
+
+// Transcribes audio that arrives a block at a time, one Whisper window per
+// worker request. Only the window being transcribed and the overlap with the
+// next one are held in memory, so recording or file length is unbounded.
+
+export interface WindowedTranscriptionResult {
+  output: TranscriptionOutput;
+  // Seconds of audio transcribed
+  duration: number;
+}
+
+export interface TranscribedWindowResult {
+  window: TranscribedWindow;
+  language: string | null;
+}
+
+export interface AudioStream {
+  // Expected length in seconds, when known up front
+  duration: number | null;
+  // Next block of 16 kHz mono samples, or null once the audio is exhausted
+  read(): Promise<Float32Array | null>;
+  close(): void;
+}
+
+export interface StreamHandlers {
+  onProgress?: (completed: number, total: number) => void;
+  onPartial?: (index: number, text: string) => void;
+  // Called as each window finishes, with every window finished so far
+  onWindow?: (windows: TranscribedWindow[], languages: (string | null)[]) => void;
+}
+
+// Windows finished by an earlier, interrupted transcription of the same audio
+export interface RestoredWindows {
+  windows: TranscribedWindow[];
+  languages: (string | null)[];
+}
+
+export const WINDOW_SAMPLES = WINDOW_LENGTH_S * WHISPER_SAMPLING_RATE;
+export const OVERLAP_SAMPLES = WINDOW_OVERLAP_S * WHISPER_SAMPLING_RATE;
+export const JUMP_SAMPLES = WINDOW_SAMPLES - OVERLAP_SAMPLES;
+
+// Growable buffer addressed by absolute sample index, which forgets what
+// lies before the window currently being transcribed
+export function createSampleBuffer() {
+  let buffer = new Float32Array(WINDOW_SAMPLES * 2);
+  let start = 0;
+  let length = 0;
+
+  return {
+    // Absolute index one past the last sample appended
+    end: () => start + length,
+
+    append(samples: Float32Array) {
+      if (length + samples.length > buffer.length) {
+        const grown = new Float32Array(Math.max(buffer.length * 2, length + samples.length));
+        grown.set(buffer.subarray(0, length));
+        buffer = grown;
+      }
+      buffer.set(samples, length);
+      length += samples.length;
+    },
+
+    // A copy, since the samples are transferred to the worker
+    slice: (from: number, to: number) => buffer.slice(from - start, to - start),
+
+    dropBefore(offset: number) {
+      const count = Math.min(offset, start + length) - start;
+      if (count <= 0) return;
+      buffer.copyWithin(0, count, length);
+      start += count;
+      length -= count;
+    },
+  };
+}
+
+export type SampleBuffer = ReturnType<typeof createSampleBuffer>;
+
+export async function transcribeWindow(
+  buffer: SampleBuffer,
+  from: number,
+  to: number,
+  model: ModelSelection,
+  options: TranscribeOptions,
+  signal?: AbortSignal,
+  priority = false,
+): Promise<TranscribedWindowResult> {
+  const output = await transcribeWithModel(buffer.slice(from, to), model, options, {}, signal, priority);
+  const start = from / WHISPER_SAMPLING_RATE;
+  const end = to / WHISPER_SAMPLING_RATE;
+
+  return {
+    window: {
+      start,
+      end,
+      segments: output.chunks.map((chunk) => ({
+        start: start + chunk.timestamp[0],
+        end: chunk.timestamp[1] === null ? end : start + chunk.timestamp[1],
+        text: chunk.text,
+        words: chunk.words?.map((word) => ({ ...word, start: start + word.start, end: start + word.end })),
+      })),
+    },
+    language: output.language,
+  };
+}
+
+// Whether the window at this offset belongs to the plan for the whole audio,
+// matching planWindows once the total length is known
+export function hasWindowAt(offset: number, totalSamples: number) {
+  return offset === 0 || offset + OVERLAP_SAMPLES < totalSamples;
+}
+
+export function combineWindows(
+  windows: TranscribedWindow[],
+  languages: (string | null)[],
+  options: TranscribeOptions,
+): TranscriptionOutput {
+  // Report the language most windows were spoken in
+  const counts = new Map<string, number>();
+  languages.forEach((code) => {
+    if (code) counts.set(code, (counts.get(code) ?? 0) + 1);
+  });
+  let language: string | null = options.language;
+  let bestCount = 0;
+  counts.forEach((count, code) => {
+    if (count > bestCount) {
+      language = code;
+      bestCount = count;
+    }
+  });
+
+  const segments = mergeWindows(windows);
+  return {
+    text: segments.map((segment) => segment.text).join(' '),
+    chunks: segments.map((segment) => ({ text: segment.text, timestamp: [segment.start, segment.end], words: segment.words })),
+    language,
+  };
+}
+
+// A transcription of a stream that can be stopped with an abort signal and
+// picked up again: windows already transcribed are kept, and calling run()
+// again continues with the first window that did not finish. Restored windows
+// are skipped the same way, with the audio they cover read and discarded.
+export function createStreamTranscription(
+  stream: AudioStream,
+  model: ModelSelection,
+  options: TranscribeOptions,
+  handlers: StreamHandlers = {},
+  restored?: RestoredWindows,
+) {
+  const buffer = createSampleBuffer();
+  const windows: TranscribedWindow[] = [...(restored?.windows ?? [])];
+  const languages: (string | null)[] = [...(restored?.languages ?? [])];
+  const expectedWindows = stream.duration
+    ? planWindows(Math.round(stream.duration * WHISPER_SAMPLING_RATE), WHISPER_SAMPLING_RATE).length
+    : 0;
+  let offset = windows.length * JUMP_SAMPLES;
+  let ended = false;
+
+  windows.forEach((window, index) => {
+    handlers.onPartial?.(index, window.segments.map((segment) => segment.text).join(' '));
+  });
+  if (windows.length > 0) {
+    handlers.onProgress?.(windows.length, Math.max(expectedWindows, windows.length + 1));
+  }
+
+  async function run(signal?: AbortSignal): Promise<WindowedTranscriptionResult> {
+    for (;;) {
+      signal?.throwIfAborted();
+
+      // Read just far enough to fill this window
+      while (!ended && buffer.end() < offset + WINDOW_SAMPLES) {
+        const block = await stream.read();
+        if (block) {
+          buffer.append(block);
+          buffer.dropBefore(offset);
+        } else {
+          ended = true;
+        }
+      }
+      if (ended && buffer.end() === 0) {
+        throw new Error('No audio could be read from this file');
+      }
+      if (ended && !hasWindowAt(offset, buffer.end())) break;
+
+      const { window, language } = await transcribeWindow(
+        buffer,
+        offset,
+        Math.min(buffer.end(), offset + WINDOW_SAMPLES),
+        model,
+        options,
+        signal,
+      );
+      windows.push(window);
+      languages.push(language);
+      offset += JUMP_SAMPLES;
+      buffer.dropBefore(offset);
+
+      handlers.onWindow?.(windows, languages);
+      handlers.onPartial?.(windows.length - 1, window.segments.map((segment) => segment.text).join(' '));
+      // Exact once all audio is read; before that the reported duration can be slightly off
+      let total = expectedWindows ? Math.max(expectedWindows, windows.length + 1) : 0;
+      if (ended) {
+        total = planWindows(buffer.end(), WHISPER_SAMPLING_RATE).length;
+      }
+      handlers.onProgress?.(windows.length, total);
+    }
+
+    handlers.onProgress?.(windows.length, windows.length);
+    return {
+      output: combineWindows(windows, languages, options),
+      duration: buffer.end() / WHISPER_SAMPLING_RATE,
+    };
+  }
+
+  return {
+    run,
+    close: () => stream.close(),
+  };
+}
+
+export type StreamTranscription = ReturnType<typeof createStreamTranscription>;
@@ -1,19 +1,20 @@
 import { useState } from 'react';
 import { VoiceRecorder } from '@/components/VoiceRecorder';
 import { NotesGenerator } from '@/components/NotesGenerator';
+import type { Transcript } from '@/lib/transcript';
 
 const Index = () => {
-  const [transcription, setTranscription] = useState('');
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
 
-  const handleTranscriptionComplete = (text: string) => {
-    setTranscription(text);
+  const handleTranscriptionComplete = (transcript: Transcript | null) => {
+    setTranscript(transcript);
   };
 
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8 space-y-8">
         <VoiceRecorder onTranscriptionComplete={handleTranscriptionComplete} />
-        <NotesGenerator transcription={transcription} />
+        <NotesGenerator transcript={transcript} />
       </div>
     </div>
   );
@@ -0,0 +1,25 @@
+import { Link } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ModelManager } from '@/components/ModelManager';
+
+const Models = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-8 max-w-3xl">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-foreground">Model Manager</h1>
+        </div>
+        <ModelManager />
+      </div>
+    </div>
+  );
+};
+
+export default Models;
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "local" to load models from VITE_LOCAL_MODEL_PATH instead of the Hugging Face hub
+  readonly VITE_MODEL_SOURCE?: string;
+  readonly VITE_LOCAL_MODEL_PATH?: string;
+}
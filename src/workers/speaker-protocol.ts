@@ -0,0 +1,14 @@
+import type { ModelSource } from '@/lib/model-source';
+
+// Messages exchanged between the UI thread and speaker.worker.ts
+
+export type SpeakerRequest =
+  // Sent once, before any other request; localModelPath must be absolute
+  | { type: 'configure'; source: ModelSource }
+  // 16 kHz mono clips, each embedded separately
+  | { type: 'embed'; id: number; clips: Float32Array[] };
+
+export type SpeakerEvent =
+  // One unit-length speaker embedding per clip, in request order
+  | { type: 'embeddings'; id: number; embeddings: Float32Array[] }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,68 @@
+import { AutoProcessor, WavLMForXVector, env } from '@xenova/transformers';
+import type { ModelSource } from '@/lib/model-source';
+import type { SpeakerEvent, SpeakerRequest } from './speaker-protocol';
+
+const ctx = self as unknown as Worker;
+
+// WavLM fine-tuned for speaker verification; its x-vectors of the same voice
+// point in similar directions regardless of what is being said
+const SPEAKER_MODEL_ID = 'Xenova/wavlm-base-plus-sv';
+
+let loaded: Promise<[Awaited<ReturnType<typeof AutoProcessor.from_pretrained>>, WavLMForXVector]> | null = null;
+
+const post = (event: SpeakerEvent) => ctx.postMessage(event);
+
+function configure(source: ModelSource) {
+  if (source.mode === 'local') {
+    env.allowLocalModels = true;
+    env.allowRemoteModels = false;
+    env.localModelPath = source.localModelPath;
+  } else {
+    env.allowLocalModels = false;
+    env.allowRemoteModels = true;
+  }
+}
+
+function getModel() {
+  if (!loaded) {
+    loaded = Promise.all([
+      AutoProcessor.from_pretrained(SPEAKER_MODEL_ID),
+      WavLMForXVector.from_pretrained(SPEAKER_MODEL_ID, { quantized: true }) as Promise<WavLMForXVector>,
+    ]);
+    // Let the next request retry after a failed download
+    loaded.catch(() => {
+      loaded = null;
+    });
+  }
+  return loaded;
+}
+
+async function embed(clips: Float32Array[]) {
+  const [processor, model] = await getModel();
+  const embeddings: Float32Array[] = [];
+
+  for (const clip of clips) {
+    const { embeddings: output } = await model(await processor(clip));
+    const vector = Float32Array.from(output.data as Float32Array);
+    const norm = Math.hypot(...vector) || 1;
+    embeddings.push(vector.map((value) => value / norm));
+  }
+  return embeddings;
+}
+
+ctx.onmessage = async (event: MessageEvent<SpeakerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'configure') {
+    configure(request.source);
+    return;
+  }
+
+  try {
+    const embeddings = await embed(request.clips);
+    post({ type: 'embeddings', id: request.id, embeddings });
+  } catch (error) {
+    console.error('Speaker worker error:', error);
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,51 @@
+import type { ModelSource } from '@/lib/model-source';
+import type { WordTiming } from '@/lib/transcript-merge';
+import type { ModelSelection, WhisperTask } from '@/lib/transcription-settings';
+
+// Messages exchanged between the UI thread and transcription.worker.ts. Each
+// transcription carries an id that every reply about it repeats, so a late
+// reply is never taken for one about the next job.
+
+export interface TranscriptionChunk {
+  text: string;
+  timestamp: [number, number | null];
+  // Timed in the same way as the chunk
+  words?: WordTiming[];
+}
+
+export interface TranscriptionOutput {
+  text: string;
+  chunks: TranscriptionChunk[];
+  // Requested language, or the one Whisper detected when auto-detecting
+  language: string | null;
+}
+
+export interface TranscribeOptions {
+  // null lets a multilingual model detect the language
+  language: string | null;
+  task: WhisperTask;
+  // Text Whisper treats as coming before the audio, e.g. course vocabulary; null for none
+  prompt: string | null;
+}
+
+export type TranscriptionRequest =
+  // Sent once, before any other request; localModelPath must be absolute
+  | { type: 'configure'; source: ModelSource }
+  | { type: 'load'; model: ModelSelection }
+  | { type: 'transcribe'; jobId: number; audio: Float32Array; model: ModelSelection; options: TranscribeOptions }
+  // Stops the transcription after its current decoding step, if it is still running
+  | { type: 'cancel'; jobId: number };
+
+export type ModelLoadStatus = 'downloading' | 'warming' | 'ready';
+
+export type TranscriptionEvent =
+  | { type: 'model-status'; model: ModelSelection; status: ModelLoadStatus }
+  // Model file download, as reported by transformers.js
+  | { type: 'load-progress'; file: string; loaded: number; total: number }
+  // One more audio chunk has been decoded by the model
+  | { type: 'progress'; jobId: number; completed: number; total: number }
+  | { type: 'partial'; jobId: number; index: number; text: string }
+  | { type: 'done'; jobId: number; output: TranscriptionOutput }
+  | { type: 'cancelled'; jobId: number }
+  // jobId is null when loading a model failed outside any transcription
+  | { type: 'error'; jobId: number | null; message: string };
@@ -0,0 +1,399 @@
+import { pipeline, env } from '@xenova/transformers';
+import type { ModelSource } from '@/lib/model-source';
+import { isSameModel, type ModelSelection } from '@/lib/transcription-settings';
+import { mergeWindows, planWindows, spreadWords, type TranscribedWindow } from '@/lib/transcript-merge';
+import type {
+  TranscribeOptions,
+  TranscriptionChunk,
+  TranscriptionEvent,
+  TranscriptionOutput,
+  TranscriptionRequest,
+} from './transcription-protocol';
+
+const ctx = self as unknown as Worker;
+
+const SAMPLING_RATE = 16000;
+
+type Transcriber = Awaited<ReturnType<typeof loadTranscriber>>;
+
+let loaded: { model: ModelSelection; transcriber: Promise<Transcriber> } | null = null;
+
+const post = (event: TranscriptionEvent) => ctx.postMessage(event);
+
+// The transcription being run, and whether a cancel request for it came in,
+// checked after every decoding step
+let currentJobId: number | null = null;
+let cancelRequested = false;
+
+class CancelledError extends Error {}
+
+function throwIfCancelled() {
+  if (cancelRequested) throw new CancelledError('Transcription cancelled');
+}
+
+// Matches Whisper language tokens such as <|es|>, but not <|0.00|> or <|translate|>
+const LANGUAGE_TOKEN_PATTERN = /^<\|([a-z]{2,3})\|>$/;
+
+function loadTranscriber(model: ModelSelection) {
+  return pipeline('automatic-speech-recognition', model.modelId, {
+    quantized: model.quantized,
+    progress_callback: (data: { status: string; file?: string; loaded?: number; total?: number }) => {
+      if (data.status === 'progress' && data.file) {
+        post({ type: 'load-progress', file: data.file, loaded: data.loaded ?? 0, total: data.total ?? 0 });
+      }
+    },
+  });
+}
+
+function configure(source: ModelSource) {
+  if (source.mode === 'local') {
+    env.allowLocalModels = true;
+    env.allowRemoteModels = false;
+    env.localModelPath = source.localModelPath;
+  } else {
+    // Skip the lookup under /models/, which the dev server answers with index.html
+    env.allowLocalModels = false;
+    env.allowRemoteModels = true;
+  }
+}
+
+async function loadAndWarmUp(model: ModelSelection) {
+  post({ type: 'model-status', model, status: 'downloading' });
+  const transcriber = await loadTranscriber(model);
+
+  // The first inference compiles the ONNX graphs; run it on a second of silence
+  post({ type: 'model-status', model, status: 'warming' });
+  await transcriber(new Float32Array(SAMPLING_RATE));
+
+  post({ type: 'model-status', model, status: 'ready' });
+  return transcriber;
+}
+
+// A pipeline is created once and reused for every transcription in this session.
+// Only one is kept in memory; switching models releases the previous one.
+function getTranscriber(model: ModelSelection) {
+  if (loaded && !isSameModel(loaded.model, model)) {
+    const previous = loaded.transcriber;
+    loaded = null;
+    previous.then((transcriber) => transcriber.dispose()).catch(() => undefined);
+  }
+
+  if (!loaded) {
+    const transcriber = loadAndWarmUp(model);
+    loaded = { model, transcriber };
+    // Let the next request retry after a failed download
+    transcriber.catch(() => {
+      if (loaded?.transcriber === transcriber) loaded = null;
+    });
+  }
+  return loaded.transcriber;
+}
+
+// Whisper emits <|startoftranscript|> <|lang|> <|task|> before the text
+function detectLanguage(transcriber: Transcriber, tokens: number[]) {
+  const [token] = transcriber.tokenizer.model.convert_ids_to_tokens(tokens.slice(1, 2));
+  return token?.match(LANGUAGE_TOKEN_PATTERN)?.[1] ?? null;
+}
+
+interface TokenTensor {
+  data: Float32Array;
+  dims: number[];
+}
+
+// State of the decoder after each step, as passed to the generate() callback
+interface Beam {
+  output_token_ids: number[];
+  prev_model_outputs: { logits: TokenTensor };
+}
+
+// Parts of the pipeline that decodeWindow drives directly
+interface WhisperInternals {
+  processor: ((audio: Float32Array) => Promise<{ input_features: unknown }>) & {
+    feature_extractor: { config: { chunk_length: number; hop_length: number } };
+  };
+  model: {
+    config: { max_source_positions: number };
+    // Only set for checkpoints exported with the cross-attentions word timing needs
+    generation_config?: { alignment_heads?: number[][] };
+    generate: (
+      inputs: unknown,
+      config: Record<string, unknown>,
+    ) => Promise<number[][] | { sequences: number[][]; token_timestamps: { tolist: () => number[][] } }>;
+  };
+  tokenizer: {
+    encode: (text: string, pair: null, options: { add_special_tokens: boolean }) => number[];
+    decode: (tokens: number[], options: { skip_special_tokens: boolean }) => string;
+    get_decoder_prompt_ids: (options: { language: string | null; task: string | null; no_timestamps: boolean }) => [number, number | null][];
+    model: { tokens_to_ids: Map<string, number> };
+  };
+}
+
+// The internals are not public API, which is why the dependency is pinned to
+// an exact version. They are checked so a change shows up as a clear error.
+function getWhisperInternals(transcriber: Transcriber): WhisperInternals {
+  const { processor, model, tokenizer } = transcriber as unknown as Partial<WhisperInternals>;
+  if (
+    typeof processor !== 'function' || !processor.feature_extractor?.config
+    || typeof model?.generate !== 'function' || !model.config
+    || typeof tokenizer?.encode !== 'function' || typeof tokenizer.decode !== 'function'
+    || typeof tokenizer.get_decoder_prompt_ids !== 'function' || !(tokenizer.model?.tokens_to_ids instanceof Map)
+  ) {
+    throw new Error(
+      'This version of @xenova/transformers does not have the Whisper pipeline internals transcription relies on. '
+        + 'Install the exact version in package.json.',
+    );
+  }
+  return { processor, model, tokenizer };
+}
+
+interface DecodeOptions {
+  prompt: string | null;
+  language: string | null;
+  task: string | null;
+}
+
+// Positions in the decoded sequence of one segment's text tokens
+interface TokenSegment {
+  start: number;
+  end: number | null;
+  positions: number[];
+}
+
+// Whisper reads at most this many tokens of previous text
+const MAX_PROMPT_TOKENS = 223;
+
+// Probability of the token just chosen among all text tokens, or null for
+// timestamps and other special tokens
+function chosenTokenProbability(beam: Beam, endOfText: number) {
+  const token = beam.output_token_ids[beam.output_token_ids.length - 1];
+  if (token >= endOfText) return null;
+
+  const { data, dims } = beam.prev_model_outputs.logits;
+  const offset = (dims[1] - 1) * dims[2];
+  let max = -Infinity;
+  for (let i = 0; i < endOfText; i++) {
+    max = Math.max(max, data[offset + i]);
+  }
+  let sum = 0;
+  for (let i = 0; i < endOfText; i++) {
+    sum += Math.exp(data[offset + i] - max);
+  }
+  return Math.exp(data[offset + token] - max) / sum;
+}
+
+// The pipeline reports neither token probabilities nor segments and words
+// together, and cannot condition on previous text, so the decoder is run by
+// hand. A prompt goes after <|startofprev|>, before the usual start tokens,
+// and is cut from the output again.
+async function decodeWindow(transcriber: Transcriber, audio: Float32Array, options: DecodeOptions) {
+  const { processor, model, tokenizer } = getWhisperInternals(transcriber);
+  const ids = tokenizer.model.tokens_to_ids;
+  const startOfTranscript = ids.get('<|startoftranscript|>') as number;
+  const endOfText = ids.get('<|endoftext|>') as number;
+  const timestampBegin = ids.get('<|0.00|>') as number;
+  const { chunk_length: chunkLength, hop_length: hopLength } = processor.feature_extractor.config;
+  const timePrecision = chunkLength / model.config.max_source_positions;
+  const duration = audio.length / SAMPLING_RATE;
+
+  const prefix = options.prompt
+    ? [
+      ids.get('<|startofprev|>') as number,
+      ...tokenizer.encode(` ${options.prompt.trim()}`, null, { add_special_tokens: false }).slice(-MAX_PROMPT_TOKENS),
+    ]
+    : [];
+  const decoderInputIds = [...prefix, startOfTranscript];
+  // Positions count from the start of the prefix; a null leaves the model to choose
+  const startIds = tokenizer.get_decoder_prompt_ids({ language: options.language, task: options.task, no_timestamps: false });
+  const forcedDecoderIds = [
+    ...decoderInputIds.slice(1).map((token, index) => [index + 1, token]),
+    ...startIds.map(([position, token]) => [position + prefix.length, token]),
+  ];
+  // Words are timed by aligning cross-attention with the audio; a prompt has
+  // no audio to align to, so prompted words are spread over their segment
+  const alignWords = !options.prompt && Boolean(model.generation_config?.alignment_heads);
+
+  const probabilities: (number | null)[] = [];
+  const { input_features } = await processor(audio);
+  const result = await model.generate(input_features, {
+    return_timestamps: true,
+    decoder_input_ids: decoderInputIds,
+    forced_decoder_ids: forcedDecoderIds,
+    ...(alignWords ? { return_token_timestamps: true, num_frames: Math.floor(audio.length / hopLength) } : {}),
+    // Called after each decoding step
+    callback_function: ([beam]: Beam[]) => {
+      throwIfCancelled();
+      probabilities.push(chosenTokenProbability(beam, endOfText));
+    },
+  });
+  const sequence = Array.isArray(result) ? result[0] : result.sequences[0];
+  const tokenTimes = Array.isArray(result) ? null : result.token_timestamps.tolist()[0];
+  const probabilityAt = (position: number) => probabilities[position - decoderInputIds.length] ?? null;
+
+  // Text tokens between pairs of timestamp tokens
+  const segments: TokenSegment[] = [];
+  let current: TokenSegment | null = null;
+  for (let position = prefix.length; position < sequence.length; position++) {
+    const token = sequence[position];
+    if (token >= timestampBegin) {
+      const time = (token - timestampBegin) * timePrecision;
+      if (current && current.positions.length > 0) {
+        current.end = time;
+        segments.push(current);
+        current = null;
+      } else {
+        current = { start: time, end: null, positions: [] };
+      }
+    } else if (token < endOfText) {
+      current ??= { start: segments[segments.length - 1]?.end ?? 0, end: null, positions: [] };
+      current.positions.push(position);
+    }
+  }
+  if (current && current.positions.length > 0) segments.push(current);
+
+  // Tokens can end partway through a character, so they are decoded in runs
+  // that make whole characters; a run starting with a space starts a word
+  const toWords = (positions: number[]) => {
+    const words: { text: string; positions: number[] }[] = [];
+    let pending: number[] = [];
+    positions.forEach((position) => {
+      pending.push(position);
+      const text = tokenizer.decode(pending.map((index) => sequence[index]), { skip_special_tokens: true });
+      if (text.includes('\ufffd')) return;
+
+      const last = words[words.length - 1];
+      if (!last || /^\s/.test(text)) {
+        words.push({ text, positions: pending });
+      } else {
+        last.text += text;
+        last.positions.push(...pending);
+      }
+      pending = [];
+    });
+    return words.map((word) => ({ ...word, text: word.text.trim() })).filter((word) => word.text);
+  };
+
+  const chunks: TranscriptionChunk[] = segments.map((segment) => {
+    const end = segment.end ?? duration;
+    const words = toWords(segment.positions);
+    const timings = tokenTimes
+      ? words.map((word, index) => {
+        const next = words[index + 1]?.positions[0];
+        const wordStart = Math.min(end, Math.max(segment.start, tokenTimes[word.positions[0]]));
+        return {
+          start: wordStart,
+          end: next === undefined ? end : Math.min(end, Math.max(wordStart, tokenTimes[next])),
+          text: word.text,
+          confidence: null,
+        };
+      })
+      : spreadWords(segment.start, end, words.map((word) => word.text));
+
+    return {
+      text: words.map((word) => word.text).join(' '),
+      timestamp: [segment.start, segment.end],
+      words: timings.map((timing, index) => {
+        const known = words[index].positions.map(probabilityAt).filter((value): value is number => value !== null);
+        const confidence = known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : null;
+        return { ...timing, confidence };
+      }),
+    };
+  });
+
+  return {
+    text: chunks.map((chunk) => chunk.text).join(' '),
+    chunks,
+    tokens: sequence.slice(prefix.length),
+  };
+}
+
+async function transcribe(jobId: number, audio: Float32Array, model: ModelSelection, options: TranscribeOptions) {
+  const transcriber = await getTranscriber(model);
+
+  // English-only checkpoints have no language or task tokens
+  const englishOnly = model.modelId.endsWith('.en');
+  const detectedLanguages = new Map<string, number>();
+
+  // Windows are transcribed one at a time and stitched by mergeWindows, rather
+  // than by the pipeline's own chunking, so each seam can be aligned by timestamp
+  const plan = planWindows(audio.length, SAMPLING_RATE);
+  const windows: TranscribedWindow[] = [];
+
+  for (const [index, { offset, length }] of plan.entries()) {
+    const start = offset / SAMPLING_RATE;
+    const end = (offset + length) / SAMPLING_RATE;
+    throwIfCancelled();
+
+    const { text, chunks, tokens } = await decodeWindow(transcriber, audio.subarray(offset, offset + length), {
+      prompt: options.prompt,
+      language: englishOnly ? null : options.language,
+      task: englishOnly ? null : options.task,
+    });
+    const language = englishOnly ? null : detectLanguage(transcriber, tokens);
+    if (language) {
+      detectedLanguages.set(language, (detectedLanguages.get(language) ?? 0) + 1);
+    }
+
+    windows.push({
+      start,
+      end,
+      segments: chunks.map((chunk) => ({
+        start: start + chunk.timestamp[0],
+        // Whisper leaves the last timestamp open when speech runs past the window
+        end: chunk.timestamp[1] === null ? end : start + chunk.timestamp[1],
+        text: chunk.text,
+        words: chunk.words?.map((word) => ({ ...word, start: start + word.start, end: start + word.end })),
+      })),
+    });
+
+    post({ type: 'partial', jobId, index, text });
+    post({ type: 'progress', jobId, completed: index + 1, total: plan.length });
+  }
+
+  // Report the language most windows were spoken in
+  let language = englishOnly ? 'en' : options.language;
+  if (!language) {
+    let bestCount = 0;
+    detectedLanguages.forEach((count, code) => {
+      if (count > bestCount) {
+        language = code;
+        bestCount = count;
+      }
+    });
+  }
+
+  const segments = mergeWindows(windows);
+  const output: TranscriptionOutput = {
+    text: segments.map((segment) => segment.text).join(' '),
+    chunks: segments.map((segment) => ({ text: segment.text, timestamp: [segment.start, segment.end], words: segment.words })),
+    language: language ?? null,
+  };
+  post({ type: 'done', jobId, output });
+}
+
+ctx.onmessage = async (event: MessageEvent<TranscriptionRequest>) => {
+  const request = event.data;
+  const jobId = request.type === 'transcribe' ? request.jobId : null;
+
+  try {
+    if (request.type === 'configure') {
+      configure(request.source);
+    } else if (request.type === 'load') {
+      await getTranscriber(request.model);
+    } else if (request.type === 'transcribe') {
+      currentJobId = request.jobId;
+      cancelRequested = false;
+      await transcribe(request.jobId, request.audio, request.model, request.options);
+    } else if (request.type === 'cancel') {
+      if (request.jobId === currentJobId) cancelRequested = true;
+    }
+  } catch (error) {
+    if (error instanceof CancelledError && jobId !== null) {
+      post({ type: 'cancelled', jobId });
+      return;
+    }
+    console.error('Transcription worker error:', error);
+    post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    if (jobId !== null && currentJobId === jobId) currentJobId = null;
+  }
+};